@@ -0,0 +1,57 @@
+/**
+ * Splits an integer total into integer parts proportional to the given weights
+ * using the largest remainder method, so the parts always add up to the total.
+ */
+export function apportion(total: number, weights: number[]): number[] {
+    const weightSum = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+    if (total === 0 || weightSum === 0) {
+        return weights.map(() => 0);
+    }
+
+    const exact = weights.map(weight => (total * Math.max(0, weight)) / weightSum);
+    const parts = exact.map(Math.floor);
+    let remainder = total - parts.reduce((sum, part) => sum + part, 0);
+
+    // Hand out the leftover units to the largest fractional parts first
+    const order = exact
+        .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+        .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+    for (const { index } of order) {
+        if (remainder <= 0) break;
+        parts[index] = (parts[index] ?? 0) + 1;
+        remainder--;
+    }
+
+    return parts;
+}
+
+/**
+ * Shares a discount amount across items pro-rata to their weights without
+ * letting any item's share exceed its cap (its current net price). Whatever
+ * a capped item cannot absorb is redistributed among the remaining items.
+ */
+export function distributeDiscount(amount: number, weights: number[], caps: number[]): number[] {
+    const shares = weights.map(() => 0);
+    let remaining = amount;
+    let open = weights.map((weight, index) => weight > 0 && (caps[index] ?? 0) > 0);
+
+    while (remaining > 1e-9 && open.some(Boolean)) {
+        const weightSum = weights.reduce((sum, weight, index) => open[index] ? sum + weight : sum, 0);
+        let distributed = 0;
+        const nextOpen = [...open];
+
+        weights.forEach((weight, index) => {
+            if (!open[index]) return;
+            const room = (caps[index] ?? 0) - (shares[index] ?? 0);
+            const share = Math.min((remaining * weight) / weightSum, room);
+            shares[index] = (shares[index] ?? 0) + share;
+            distributed += share;
+            if (share >= room) nextOpen[index] = false;
+        });
+
+        remaining -= distributed;
+        open = nextOpen;
+    }
+
+    return shares;
+}
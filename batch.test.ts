@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { processBatchInput, readBatchInputs, readLines, resolveBatchTarget, runBatch, type BatchInput } from './batch';
+import type { BatchRecord } from './schema';
+
+const cart = JSON.stringify({
+    items: [{ name: 'T-Shirt', price: 500, category: 'Clothing', quantity: 2 }],
+    discounts: [
+        { category: 'Coupon', type: 'Fixed', amount: 100 },
+        { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40 }
+    ]
+});
+
+async function* inputs(...texts: string[]): AsyncGenerator<BatchInput> {
+    for (const [index, text] of texts.entries()) {
+        yield { source: `test:${index + 1}`, text };
+    }
+}
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+            controller.close();
+        }
+    });
+}
+
+describe('Batch processing', () => {
+    it('should calculate each cart and summarize the discounts per category', async () => {
+        const records: BatchRecord[] = [];
+        const summary = await runBatch(inputs(cart, cart), record => { records.push(record); });
+
+        expect(records.map(record => record.source)).toEqual(['test:1', 'test:2']);
+        expect(summary).toEqual({
+            carts: 2,
+            succeeded: 2,
+            failed: 0,
+            totals: {
+                THB: { totalDiscount: 440, discountByCategory: { 'Coupon': 200, 'On Top': 0, 'Seasonal': 240, 'Shipping': 0 } }
+            }
+        });
+    });
+
+    it('should report failures per cart without stopping the run', async () => {
+        const records: BatchRecord[] = [];
+        const summary = await runBatch(inputs('{oops', '{"items":[],"discounts":[]}', cart), record => { records.push(record); });
+
+        expect(records[0]).toMatchObject({ source: 'test:1', error: 'INVALID_JSON' });
+        expect(records[1]).toMatchObject({ source: 'test:2', error: 'VALIDATION_ERROR', issues: [{ path: 'items' }] });
+        expect(records[2]).toHaveProperty('result');
+        expect(summary).toMatchObject({ carts: 3, succeeded: 1, failed: 2, totals: { THB: { totalDiscount: 220 } } });
+    });
+
+    it('should pass calculation options to every cart', () => {
+        const record = processBatchInput({ source: 'test', text: cart }, { tax: { rate: 7 } });
+
+        expect(record).toHaveProperty('result.tax.vatAmount');
+    });
+
+    it('should split lines across chunk boundaries', async () => {
+        const lines = await Array.fromAsync(readLines(streamOf('{"a":', '1}\n{"b"', ':2}\n\n{"c":3}')));
+
+        expect(lines).toEqual(['{"a":1}', '{"b":2}', '', '{"c":3}']);
+    });
+
+    it('should read .json and .ndjson files from a directory in order', async () => {
+        const directory = mkdtempSync(join(tmpdir(), 'batch-'));
+        writeFileSync(join(directory, 'a.json'), cart);
+        writeFileSync(join(directory, 'b.ndjson'), `${cart}\n\n${cart}\n`);
+        writeFileSync(join(directory, 'notes.txt'), 'ignored');
+
+        const targets = await resolveBatchTarget(directory);
+        const sources = (await Array.fromAsync(readBatchInputs(targets))).map(input => input.source);
+
+        expect(sources).toEqual([join(directory, 'a.json'), `${join(directory, 'b.ndjson')}:1`, `${join(directory, 'b.ndjson')}:3`]);
+    });
+
+    it('should resolve nothing for a glob without matches', async () => {
+        expect(await resolveBatchTarget(join(tmpdir(), 'missing-batch-dir', '*.json'))).toEqual([]);
+    });
+});
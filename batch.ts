@@ -0,0 +1,201 @@
+import type { Database } from "bun:sqlite";
+import { statSync } from "fs";
+import { join } from "path";
+import { getBudgetUsage } from "./budgets";
+import { applyCoupons } from "./coupons";
+import { calculateDiscount } from "./discount";
+import { applyLoyalty, settleLoyalty } from "./loyalty";
+import { fromMinorUnits, toMinorUnits } from "./money";
+import { CampaignCategory, CartSchema, toValidationIssues, type BatchRecord, type BatchSummary, type BatchTotals, type CalculationOptions } from "./schema";
+
+const BATCH_FILE_PATTERN = "*.{json,ndjson}";
+
+// Where carts come from: NDJSON on stdin, or a .json (one cart) or .ndjson file
+export type BatchTarget = { stdin: true } | { path: string };
+
+export interface BatchOptions extends CalculationOptions {
+    // Resolves the carts' coupon codes; redemptions are not recorded
+    couponRegistry?: Database;
+    // Previews the carts' loyalty points; balances are not changed
+    loyaltyLedger?: Database;
+    // Caps campaigns at their budget left; nothing is spent
+    budgetStore?: Database;
+}
+
+// One cart's raw text, or why it could not be read
+export type BatchInput = { source: string; text: string } | { source: string; error: string };
+
+/**
+ * Resolves a batch argument to files: "-" is stdin, a directory contributes
+ * its .json and .ndjson files, anything else is a file path or a glob.
+ * Paths are sorted so reruns produce the same output order.
+ */
+export async function resolveBatchTarget(target: string): Promise<BatchTarget[]> {
+    if (target === "-") {
+        return [{ stdin: true }];
+    }
+
+    const stat = statSync(target, { throwIfNoEntry: false });
+    if (stat?.isFile()) {
+        return [{ path: target }];
+    }
+
+    const directory = stat?.isDirectory() ? target : undefined;
+    let matches: string[];
+    try {
+        matches = await Array.fromAsync(new Bun.Glob(directory ? BATCH_FILE_PATTERN : target).scan({ cwd: directory ?? ".", onlyFiles: true }));
+    } catch {
+        // The glob points into a directory that does not exist
+        return [];
+    }
+    return matches
+        .map(path => directory ? join(directory, path) : path)
+        .sort()
+        .map(path => ({ path }));
+}
+
+export async function* readBatchInputs(targets: BatchTarget[]): AsyncGenerator<BatchInput> {
+    for (const target of targets) {
+        if ("stdin" in target) {
+            yield* readNdjson(Bun.stdin.stream(), "stdin");
+        } else if (target.path.endsWith(".ndjson")) {
+            yield* readNdjson(Bun.file(target.path).stream(), target.path);
+        } else {
+            try {
+                yield { source: target.path, text: await Bun.file(target.path).text() };
+            } catch (error) {
+                yield { source: target.path, error: (error as Error).message };
+            }
+        }
+    }
+}
+
+// One cart per non-blank line; the source names the line for error reports
+async function* readNdjson(stream: ReadableStream<Uint8Array>, name: string): AsyncGenerator<BatchInput> {
+    let lineNumber = 0;
+    try {
+        for await (const line of readLines(stream)) {
+            lineNumber++;
+            if (line.trim().length > 0) {
+                yield { source: `${name}:${lineNumber}`, text: line };
+            }
+        }
+    } catch (error) {
+        yield { source: name, error: (error as Error).message };
+    }
+}
+
+// Splits a byte stream into lines without holding the whole input in memory
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let pending = "";
+
+    for await (const chunk of stream) {
+        const lines = (pending + decoder.decode(chunk, { stream: true })).split("\n");
+        pending = lines.pop()!;
+        yield* lines;
+    }
+
+    pending += decoder.decode();
+    if (pending.length > 0) {
+        yield pending;
+    }
+}
+
+// Validates and calculates a single cart; failures become error records
+export function processBatchInput(input: BatchInput, options: BatchOptions = {}): BatchRecord {
+    const { source } = input;
+    if ("error" in input) {
+        return { source, error: "READ_ERROR", message: input.error };
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(input.text);
+    } catch {
+        return { source, error: "INVALID_JSON", message: "Cart must be valid JSON" };
+    }
+
+    const cart = CartSchema.safeParse(data);
+    if (!cart.success) {
+        return { source, error: "VALIDATION_ERROR", message: "Invalid cart data format", issues: toValidationIssues(cart.error) };
+    }
+
+    const { couponRegistry, loyaltyLedger, budgetStore, ...calculationOptions } = options;
+    const coupons = applyCoupons(couponRegistry, cart.data);
+    if (!coupons.ok) {
+        return { source, error: "COUPON_ERROR", message: "Coupon codes could not be applied", issues: coupons.issues.map(({ path, message }) => ({ path, message })) };
+    }
+    const loyalty = applyLoyalty(loyaltyLedger, coupons.cart);
+    if (!loyalty.ok) {
+        return { source, error: "LOYALTY_ERROR", message: "Loyalty points could not be applied", issues: loyalty.issues.map(({ path, message }) => ({ path, message })) };
+    }
+
+    let result;
+    try {
+        const budgets = budgetStore && getBudgetUsage(budgetStore, loyalty.cart);
+        result = calculateDiscount(loyalty.cart.items, loyalty.cart.discounts, { ...calculationOptions, currency: loyalty.cart.currency, shipping: loyalty.cart.shipping, budgets });
+    } catch (error) {
+        return { source, error: "CALCULATION_ERROR", message: (error as Error).message };
+    }
+
+    if (loyaltyLedger) {
+        const settled = settleLoyalty(loyaltyLedger, loyalty.cart, result, false);
+        if (!settled.ok) {
+            return { source, error: "LOYALTY_ERROR", message: "Loyalty points could not be applied", issues: settled.issues.map(({ path, message }) => ({ path, message })) };
+        }
+        result = settled.result;
+    }
+    return { source, result };
+}
+
+/**
+ * Processes carts one at a time, handing each record to `write` as soon as it
+ * is ready, and returns the totals. Only the running totals are kept, so
+ * memory use does not grow with the number of carts.
+ */
+export async function runBatch(
+    inputs: AsyncIterable<BatchInput>,
+    write: (record: BatchRecord) => void | Promise<void>,
+    options: BatchOptions = {}
+): Promise<BatchSummary> {
+    let carts = 0;
+    let failed = 0;
+    // Per currency, in minor units
+    const totals = new Map<string, { totalDiscount: number; discountByCategory: Map<CampaignCategory, number> }>();
+
+    for await (const input of inputs) {
+        const record = processBatchInput(input, options);
+        carts++;
+
+        if ("result" in record) {
+            const { currency } = record.result;
+            let currencyTotals = totals.get(currency);
+            if (!currencyTotals) {
+                currencyTotals = { totalDiscount: 0, discountByCategory: new Map(CampaignCategory.options.map(category => [category, 0])) };
+                totals.set(currency, currencyTotals);
+            }
+            currencyTotals.totalDiscount += toMinorUnits(record.result.totalDiscount, currency);
+            for (const campaign of record.result.appliedCampaigns) {
+                const { discountByCategory } = currencyTotals;
+                discountByCategory.set(campaign.category, (discountByCategory.get(campaign.category) ?? 0) + toMinorUnits(campaign.discountAmount, currency));
+            }
+        } else {
+            failed++;
+        }
+
+        await write(record);
+    }
+
+    return {
+        carts,
+        succeeded: carts - failed,
+        failed,
+        totals: Object.fromEntries([...totals].map(([currency, { totalDiscount, discountByCategory }]): [string, BatchTotals] => [currency, {
+            totalDiscount: fromMinorUnits(totalDiscount, currency),
+            discountByCategory: Object.fromEntries(
+                [...discountByCategory].map(([category, units]) => [category, fromMinorUnits(units, currency)])
+            ) as BatchTotals["discountByCategory"]
+        }]))
+    };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'bun:test';
+import { commitBudgets, getBudgetUsage, openBudgetStore } from './budgets';
+import { setExchangeRates } from './currency';
+import { calculateDiscount } from './discount';
+import { CartSchema, type Cart } from './schema';
+
+const seasonalCart: Cart = {
+    items: [{ name: 'Jacket', price: 1000, category: 'Clothing', quantity: 1 }],
+    discounts: [{ category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40, id: 'songkran', budget: 300 }]
+};
+
+// Calculates the cart against the store, then spends its budgets
+function checkout(db: ReturnType<typeof openBudgetStore>, cart: Cart) {
+    const result = calculateDiscount(cart.items, cart.discounts, { currency: cart.currency, budgets: getBudgetUsage(db, cart) });
+    return { result, spent: commitBudgets(db, cart, result) };
+}
+
+describe('Campaign budgets', () => {
+    it('should cap the discount at the budget left and then stop applying', () => {
+        const db = openBudgetStore(':memory:');
+
+        expect(checkout(db, seasonalCart).result.totalDiscount).toBe(120);
+        expect(checkout(db, seasonalCart).result.totalDiscount).toBe(120);
+
+        const last = checkout(db, seasonalCart);
+        expect(last.result.appliedCampaigns[0]).toMatchObject({ id: 'songkran', discountAmount: 60, applied: true, exhausted: true });
+        expect(getBudgetUsage(db, seasonalCart)).toEqual({ songkran: { spent: 300, redemptions: 3 } });
+
+        expect(checkout(db, seasonalCart).result.appliedCampaigns[0]).toEqual({
+            category: 'Seasonal',
+            type: 'Special',
+            description: 'Seasonal (40.00 THB per 300.00 THB)',
+            discountAmount: 0,
+            applied: false,
+            reason: 'Budget exhausted: the 300.00 THB budget is spent',
+            id: 'songkran',
+            exhausted: true
+        });
+    });
+
+    it('should stop after the maximum number of redemptions', () => {
+        const db = openBudgetStore(':memory:');
+        const cart: Cart = { ...seasonalCart, discounts: [{ category: 'Coupon', type: 'Fixed', amount: 50, id: 'first-order', maxRedemptions: 2 }] };
+
+        expect(checkout(db, cart).result.appliedCampaigns[0]?.exhausted).toBeUndefined();
+        expect(checkout(db, cart).result.appliedCampaigns[0]?.exhausted).toBe(true);
+        expect(checkout(db, cart).result.appliedCampaigns[0]?.reason).toBe('Budget exhausted: all 2 redemptions are used');
+    });
+
+    it('should refuse to spend past the budget when another order got there first', () => {
+        const db = openBudgetStore(':memory:');
+        const cart: Cart = { ...seasonalCart, discounts: [{ category: 'Coupon', type: 'Fixed', amount: 200, id: 'flash', budget: 300 }] };
+
+        // Both checkouts see the whole budget before either is committed
+        const usage = getBudgetUsage(db, cart);
+        const first = calculateDiscount(cart.items, cart.discounts, { budgets: usage });
+        const second = calculateDiscount(cart.items, cart.discounts, { budgets: usage });
+
+        expect(commitBudgets(db, cart, first)).toEqual({ ok: true, spendIds: [1] });
+        expect(commitBudgets(db, cart, second)).toEqual({
+            ok: false,
+            issues: [{ code: 'BUDGET_EXHAUSTED', path: 'discounts.0', message: 'Campaign flash has 100.00 THB of its budget left, the order needs 200.00 THB' }]
+        });
+        expect(getBudgetUsage(db, cart)).toEqual({ flash: { spent: 200, redemptions: 1 } });
+    });
+
+    it('should spend one budget for carts in different currencies', () => {
+        const db = openBudgetStore(':memory:');
+        const cart: Cart = { ...seasonalCart, discounts: [{ category: 'Coupon', type: 'Fixed', amount: 200, id: 'flash', budget: 300 }] };
+        const usdCart: Cart = { ...cart, currency: 'USD', items: [{ name: 'Jacket', price: 100, category: 'Clothing', quantity: 1 }] };
+        expect(CartSchema.safeParse(usdCart).error?.issues[0]).toMatchObject({ path: ['discounts', 0, 'budget'], message: "No exchange rate from THB to USD for the campaign's budget" });
+
+        setExchangeRates({ base: 'THB', rates: { USD: 0.025 } });
+        try {
+            expect(checkout(db, cart).result.totalDiscount).toBe(200);
+            // The 100 THB left of the budget is 2.50 USD
+            expect(checkout(db, usdCart).result.totalDiscount).toBe(2.5);
+            expect(getBudgetUsage(db, usdCart)).toEqual({ flash: { spent: 300, redemptions: 2 } });
+            expect(checkout(db, cart).result.appliedCampaigns[0]?.applied).toBe(false);
+        } finally {
+            setExchangeRates(undefined);
+        }
+    });
+
+    it('should require an id on campaigns with a budget', () => {
+        const parsed = CartSchema.safeParse({ ...seasonalCart, discounts: [{ category: 'Coupon', type: 'Fixed', amount: 50, budget: 1000 }] });
+
+        expect(parsed.success).toBe(false);
+        expect(parsed.error?.issues[0]).toMatchObject({ path: ['discounts', 0, 'id'], message: 'A campaign with a budget or redemption limit needs an id' });
+    });
+});
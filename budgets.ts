@@ -0,0 +1,130 @@
+import type { Database } from "bun:sqlite";
+import { z } from "zod/v4";
+import { budgetCurrency, hasBudget, type BudgetUsage } from "./campaigns";
+import { convertAmount } from "./currency";
+import { openDatabase } from "./database";
+import { DEFAULT_CURRENCY, formatCurrency, fromMinorUnits, toMinorUnits } from "./money";
+import type { Cart, DiscountCampaign, DiscountResult } from "./schema";
+
+export const BudgetErrorCode = z.enum(["BUDGET_EXHAUSTED"]);
+
+export type BudgetErrorCode = z.infer<typeof BudgetErrorCode>;
+
+export interface BudgetIssue {
+    code: BudgetErrorCode;
+    // Where the campaign sits in the cart, e.g. discounts.2
+    path: string;
+    message: string;
+}
+
+interface UsageRow {
+    spent: number;
+    redemptions: number;
+}
+
+// Every spend is kept in minor units of the campaign's budget currency, so sums stay exact
+export function openBudgetStore(path: string): Database {
+    const db = openDatabase(path);
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS budget_spends (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            campaign_id TEXT NOT NULL,
+            currency TEXT NOT NULL,
+            amount INTEGER NOT NULL,
+            spent_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS budget_spends_campaign ON budget_spends(campaign_id, currency);
+    `);
+    return db;
+}
+
+export function getCampaignUsage(db: Database, id: string, currency: string): BudgetUsage {
+    const row = db.query<UsageRow, [string, string]>(
+        "SELECT COALESCE(SUM(amount), 0) AS spent, COUNT(*) AS redemptions FROM budget_spends WHERE campaign_id = ? AND currency = ?"
+    ).get(id, currency)!;
+    return { spent: fromMinorUnits(row.spent, currency), redemptions: row.redemptions };
+}
+
+/**
+ * Reads what the cart's budgeted campaigns have given so far, keyed by
+ * campaign id, to pass to calculateDiscount as the budgets option.
+ */
+export function getBudgetUsage(db: Database, cart: Cart): Record<string, BudgetUsage> {
+    const usage: Record<string, BudgetUsage> = {};
+    cart.discounts.forEach(campaign => {
+        if (campaign.id !== undefined && hasBudget(campaign)) {
+            usage[campaign.id] = getCampaignUsage(db, campaign.id, budgetCurrency(campaign));
+        }
+    });
+    return usage;
+}
+
+/**
+ * Records what the order's budgeted campaigns gave, one redemption each.
+ * Budgets and redemption limits are checked again inside an immediate
+ * transaction, so concurrent checkouts cannot spend past a budget; either
+ * every campaign is recorded or none is. A failed check means another order
+ * took the rest in the meantime: calculate the cart again and retry. The ids
+ * of the recorded spends are returned so releaseBudgets can undo them.
+ */
+export function commitBudgets(db: Database, cart: Cart, result: DiscountResult, now: Date = new Date()): { ok: true; spendIds: number[] } | { ok: false; issues: BudgetIssue[] } {
+    const cartCurrency = result.currency ?? DEFAULT_CURRENCY;
+    const insert = db.prepare("INSERT INTO budget_spends (campaign_id, currency, amount, spent_at) VALUES (?, ?, ?, ?)");
+
+    return db.transaction(() => {
+        const issues: BudgetIssue[] = [];
+        const spends: [id: string, currency: string, units: number][] = [];
+
+        for (const applied of result.appliedCampaigns) {
+            const index = cart.discounts.findIndex(campaign => applied.id !== undefined && campaign.id === applied.id);
+            const campaign = cart.discounts[index];
+            if (!applied.applied || applied.discountAmount === 0 || !campaign || !hasBudget(campaign)) continue;
+
+            // Carts in any currency spend from the same budget, converted into its currency
+            const currency = budgetCurrency(campaign);
+            // Spends of the same campaign earlier in this order count too
+            const pending = spends.filter(([id]) => id === campaign.id);
+            const usage = getCampaignUsage(db, campaign.id!, currency);
+            const spentUnits = toMinorUnits(usage.spent, currency) + pending.reduce((sum, [, , units]) => sum + units, 0);
+            const budgetUnits = campaign.budget === undefined ? undefined : toMinorUnits(campaign.budget, currency);
+
+            let units = currency === cartCurrency
+                ? toMinorUnits(applied.discountAmount, currency)
+                : toMinorUnits(convertAmount(applied.discountAmount, cartCurrency, currency), currency);
+            // A discount cut to the rest of the budget may round a minor unit over it after conversion
+            if (applied.exhausted && budgetUnits !== undefined) {
+                units = Math.min(units, Math.max(0, budgetUnits - spentUnits));
+            }
+
+            const problem = findBudgetProblem(campaign, usage.redemptions + pending.length, spentUnits, units, currency);
+            if (problem) {
+                issues.push({ code: "BUDGET_EXHAUSTED", path: `discounts.${index}`, message: problem });
+            } else {
+                spends.push([campaign.id!, currency, units]);
+            }
+        }
+
+        if (issues.length > 0) {
+            return { ok: false as const, issues };
+        }
+        const spendIds = spends.map(([id, currency, units]) => Number(insert.run(id, currency, units, now.toISOString()).lastInsertRowid));
+        return { ok: true as const, spendIds };
+    }).immediate();
+}
+
+// Gives back what commitBudgets spent for an order that was not placed after all
+export function releaseBudgets(db: Database, spendIds: number[]): void {
+    const remove = db.prepare("DELETE FROM budget_spends WHERE id = ?");
+    db.transaction(() => spendIds.forEach(id => remove.run(id))).immediate();
+}
+
+function findBudgetProblem(campaign: DiscountCampaign, redemptions: number, spentUnits: number, units: number, currency: string): string | undefined {
+    if (campaign.maxRedemptions !== undefined && redemptions >= campaign.maxRedemptions) {
+        return `Campaign ${campaign.id} has reached its limit of ${campaign.maxRedemptions} redemptions`;
+    }
+    if (campaign.budget !== undefined && spentUnits + units > toMinorUnits(campaign.budget, currency)) {
+        const left = fromMinorUnits(Math.max(0, toMinorUnits(campaign.budget, currency) - spentUnits), currency);
+        return `Campaign ${campaign.id} has ${formatCurrency(left, currency)} of its budget left, the order needs ${formatCurrency(fromMinorUnits(units, currency), currency)}`;
+    }
+    return undefined;
+}
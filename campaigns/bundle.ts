@@ -0,0 +1,93 @@
+import { z } from 'zod/v4';
+import { apportion } from '../allocation';
+import { formatCurrency } from '../money';
+import type { CartItem } from '../schema';
+import { campaignBaseShape, conversionParameters, toCartUnits } from './conditions';
+import { defineCampaign, STAGE, type DiscountedUnits } from './types';
+import { describeSelector, groupUnits, ItemSelectorSchema, matchesSelector, summarizeUnits, type UnitGroup } from './units';
+
+export const BundleComponentSchema = z.object({
+    target: ItemSelectorSchema,
+    quantity: z.number().int().min(1, 'Quantity must be at least 1').optional().default(1)
+});
+
+export const BundleCampaignSchema = z.object({
+    category: z.literal('On Top'),
+    type: z.literal('Bundle'),
+    components: z.array(BundleComponentSchema).min(2, 'Bundle needs at least two components'),
+    price: z.number().min(0, 'Bundle price must be non-negative'),
+    ...campaignBaseShape
+});
+
+export type BundleComponent = z.infer<typeof BundleComponentSchema>;
+export type BundleCampaign = z.infer<typeof BundleCampaignSchema>;
+
+export const bundleCampaign = defineCampaign({
+    name: 'Bundle',
+    category: 'On Top',
+    type: 'Bundle',
+    schema: BundleCampaignSchema,
+    stage: STAGE['On Top'],
+    example: { category: 'On Top', type: 'Bundle', components: [{ target: { name: 'T-Shirt' } }, { target: { name: 'Hat' } }], price: 500 },
+    apply: (campaign, context) => {
+        const bundlePrice = toCartUnits(campaign.price, campaign, context);
+        const groups = groupUnits(context);
+        const left = groups.map(group => group.quantity);
+        const discounts: DiscountedUnits[] = [];
+        let discount = 0;
+        let bundles = 0;
+
+        // Build bundles from the most expensive matching units while every component can be filled
+        while (true) {
+            const bundle = takeBundle(campaign.components, context.items, groups, left);
+            if (!bundle) break;
+
+            const regularPrice = bundle.reduce((sum, part) => sum + groups[part.group]!.price * part.quantity, 0);
+            if (regularPrice <= bundlePrice) break; // No saving from here on
+
+            // The same bundle is built again until one of its lines runs short
+            const repeats = Math.min(...bundle.map(part => Math.floor((left[part.group] ?? 0) / part.quantity)));
+            const saving = regularPrice - bundlePrice;
+            discount += saving * repeats;
+            bundles += repeats;
+            const shares = apportion(saving, bundle.map(part => groups[part.group]!.price * part.quantity));
+            bundle.forEach((part, index) => {
+                left[part.group] = (left[part.group] ?? 0) - part.quantity * repeats;
+                discounts.push({ item: groups[part.group]!.item, quantity: part.quantity * repeats, discount: (shares[index] ?? 0) * repeats });
+            });
+        }
+
+        return {
+            discount,
+            ...summarizeUnits(context, discounts),
+            explanation: {
+                formula: 'sum over bundles of (regular price of the bundled units - bundle price)',
+                parameters: { bundles, bundlePrice: campaign.price, ...conversionParameters(campaign, context) }
+            }
+        };
+    },
+    describe: (campaign, currency) => {
+        const components = campaign.components
+            .map(component => `${component.quantity > 1 ? `${component.quantity}× ` : ''}${describeSelector(component.target)}`)
+            .join(' + ');
+        return `Bundle (${components} for ${formatCurrency(campaign.price, campaign.currency ?? currency)})`;
+    }
+});
+
+// Fills every component with the most expensive matching units left, if possible; the units taken per group
+function takeBundle(components: BundleComponent[], items: CartItem[], groups: UnitGroup[], left: number[]): { group: number; quantity: number }[] | undefined {
+    const taken = groups.map(() => 0);
+
+    for (const component of components) {
+        let needed = component.quantity;
+        groups.forEach((group, index) => {
+            if (needed === 0 || !matchesSelector(items[group.item]!, component.target)) return;
+            const quantity = Math.min(needed, (left[index] ?? 0) - (taken[index] ?? 0));
+            taken[index] = (taken[index] ?? 0) + quantity;
+            needed -= quantity;
+        });
+        if (needed > 0) return undefined;
+    }
+
+    return taken.flatMap((quantity, group) => quantity > 0 ? [{ group, quantity }] : []);
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod/v4';
+import { campaignBaseShape } from './conditions';
+import { defineCampaign, STAGE } from './types';
+import { countUnits, describeSelector, groupUnits, ItemSelectorSchema, summarizeUnits, takeCheapest } from './units';
+
+export const BuyXGetYCampaignSchema = z.object({
+    category: z.literal('On Top'),
+    type: z.literal('BuyXGetY'),
+    target: ItemSelectorSchema,
+    buyQuantity: z.number().int().min(1, 'Buy quantity must be at least 1'),
+    freeQuantity: z.number().int().min(1, 'Free quantity must be at least 1'),
+    ...campaignBaseShape
+});
+
+export type BuyXGetYCampaign = z.infer<typeof BuyXGetYCampaignSchema>;
+
+export const buyXGetYCampaign = defineCampaign({
+    name: 'Buy X Get Y',
+    category: 'On Top',
+    type: 'BuyXGetY',
+    schema: BuyXGetYCampaignSchema,
+    stage: STAGE['On Top'],
+    example: { category: 'On Top', type: 'BuyXGetY', target: { category: 'Clothing' }, buyQuantity: 2, freeQuantity: 1 },
+    apply: (campaign, context) => {
+        // Every full set of buy + free matching units makes the cheapest units free
+        const groups = groupUnits(context, campaign.target);
+        const matchingUnits = countUnits(groups);
+        const sets = Math.floor(matchingUnits / (campaign.buyQuantity + campaign.freeQuantity));
+        const freeUnits = takeCheapest(groups, sets * campaign.freeQuantity);
+
+        const summary = summarizeUnits(context, freeUnits.map(({ item, price, quantity }) => ({ item, quantity, discount: price * quantity })));
+        return {
+            discount: freeUnits.reduce((sum, group) => sum + group.price * group.quantity, 0),
+            ...summary,
+            explanation: {
+                formula: 'price of the cheapest floor(matching units / (buyQuantity + freeQuantity)) × freeQuantity units',
+                parameters: {
+                    matchingUnits,
+                    buyQuantity: campaign.buyQuantity,
+                    freeQuantity: campaign.freeQuantity,
+                    sets,
+                    freeUnits: countUnits(freeUnits)
+                }
+            }
+        };
+    },
+    describe: campaign => `Buy ${campaign.buyQuantity} Get ${campaign.freeQuantity} Free (${describeSelector(campaign.target)})`
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod/v4';
+import { isInCategory, ItemCategory } from '../categories';
+import { fromMinorUnits, roundMinorUnits } from '../money';
+import { campaignBaseShape } from './conditions';
+import { defineCampaign, STAGE } from './types';
+
+export const CategoryDiscountCampaignSchema = z.object({
+    category: z.literal('On Top'),
+    type: z.literal('Percentage'),
+    targetCategory: ItemCategory,
+    percentage: z.number().min(0).max(100, 'Percentage must be between 0 and 100'),
+    ...campaignBaseShape
+});
+
+export type CategoryDiscountCampaign = z.infer<typeof CategoryDiscountCampaignSchema>;
+
+export const categoryDiscountCampaign = defineCampaign({
+    name: 'Category Discount',
+    category: 'On Top',
+    type: 'Percentage',
+    schema: CategoryDiscountCampaignSchema,
+    stage: STAGE['On Top'],
+    example: { category: 'On Top', type: 'Percentage', targetCategory: 'Clothing', percentage: 15 },
+    apply: (campaign, context) => {
+        // Based on the original prices of the items in the target category and its subcategories
+        const weights = context.items.map((item, index) =>
+            isInCategory(item.category, campaign.targetCategory) ? context.lineTotals[index] ?? 0 : 0);
+        const categoryTotal = weights.reduce((sum, weight) => sum + weight, 0);
+        return {
+            discount: roundMinorUnits((categoryTotal * campaign.percentage) / 100, context.rounding),
+            weights,
+            explanation: {
+                formula: 'original targetCategory total × percentage / 100',
+                parameters: { targetCategory: campaign.targetCategory, categoryTotal: fromMinorUnits(categoryTotal, context.currency), percentage: campaign.percentage }
+            }
+        };
+    },
+    describe: campaign => `Category Discount (${campaign.targetCategory} ${campaign.percentage}%)`
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'bun:test';
+import { calculateDiscount } from '../discount';
+import { DiscountCampaignSchema, type CartItem, type DiscountCampaign } from '../schema';
+
+const items: CartItem[] = [
+    { name: 'T-Shirt', price: 350, category: 'Clothing', quantity: 2 },
+    { name: 'Hat', price: 250, category: 'Accessories', quantity: 1 }
+];
+
+describe('campaign conditions', () => {
+    it('should apply campaigns whose conditions are met', () => {
+        const campaigns: DiscountCampaign[] = [{
+            category: 'Coupon',
+            type: 'Fixed',
+            amount: 100,
+            conditions: { minSubtotal: 950, minItems: 2, minUnits: 3 }
+        }];
+
+        const result = calculateDiscount(items, campaigns);
+
+        expect(result.totalDiscount).toBe(100);
+        expect(result.appliedCampaigns[0]?.applied).toBe(true);
+    });
+
+    it('should report a campaign below the minimum subtotal as not applied', () => {
+        const campaigns: DiscountCampaign[] = [{
+            category: 'Coupon',
+            type: 'Fixed',
+            amount: 100,
+            conditions: { minSubtotal: 1000 }
+        }];
+
+        const result = calculateDiscount(items, campaigns);
+
+        expect(result.totalDiscount).toBe(0);
+        expect(result.appliedCampaigns[0]).toMatchObject({
+            applied: false,
+            discountAmount: 0,
+            reason: 'Subtotal 950.00 THB is below the minimum of 1,000.00 THB'
+        });
+    });
+
+    it('should check item and unit counts', () => {
+        const byItems = calculateDiscount(items, [{ category: 'Coupon', type: 'Percentage', percentage: 10, conditions: { minItems: 3 } }]);
+        const byUnits = calculateDiscount(items, [{ category: 'Coupon', type: 'Percentage', percentage: 10, conditions: { minUnits: 4 } }]);
+
+        expect(byItems.appliedCampaigns[0]?.reason).toBe('Cart has 2 items, at least 3 required');
+        expect(byUnits.appliedCampaigns[0]?.reason).toBe('Cart has 3 units, at least 4 required');
+    });
+
+    it('should check the spend in a category', () => {
+        const campaigns: DiscountCampaign[] = [{
+            category: 'Seasonal',
+            type: 'Special',
+            everyXThb: 100,
+            discountYThb: 10,
+            conditions: { minCategorySpend: { category: 'Accessories', amount: 300 } }
+        }];
+
+        const result = calculateDiscount(items, campaigns);
+
+        expect(result.appliedCampaigns[0]?.applied).toBe(false);
+        expect(result.appliedCampaigns[0]?.reason).toBe('Accessories spend 250.00 THB is below the minimum of 300.00 THB');
+    });
+
+    it('should cap the discount at maxDiscount', () => {
+        const campaigns: DiscountCampaign[] = [{
+            category: 'Coupon',
+            type: 'Percentage',
+            percentage: 50,
+            conditions: { maxDiscount: 200 }
+        }];
+
+        const result = calculateDiscount(items, campaigns);
+
+        expect(result.totalDiscount).toBe(200);
+        expect(result.finalTotal).toBe(750);
+    });
+
+    it('should keep evaluating later stages against the unchanged total', () => {
+        const campaigns: DiscountCampaign[] = [
+            { category: 'Coupon', type: 'Fixed', amount: 100, conditions: { minSubtotal: 5000 } },
+            { category: 'On Top', type: 'Fixed', customerPoints: 1000 }
+        ];
+
+        const result = calculateDiscount(items, campaigns);
+
+        // Points capped at 20% of the untouched 950
+        expect(result.appliedCampaigns.map(c => c.discountAmount)).toEqual([0, 190]);
+    });
+
+    it('should validate conditions', () => {
+        const parsed = DiscountCampaignSchema.safeParse({
+            category: 'Coupon',
+            type: 'Fixed',
+            amount: 100,
+            conditions: { minUnits: 0 }
+        });
+
+        expect(parsed.success).toBe(false);
+    });
+});
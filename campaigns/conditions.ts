@@ -0,0 +1,147 @@
+import { z } from 'zod/v4';
+import { isInCategory, ItemCategory } from '../categories';
+import { convertAmount, CurrencyCode } from '../currency';
+import { DEFAULT_CURRENCY, formatCurrency, fromMinorUnits, minorUnitsPer, roundMinorUnits, toMinorUnits } from '../money';
+import type { CampaignContext } from './types';
+
+// Optional eligibility rules and limits shared by every campaign type
+export const CampaignConditionsSchema = z.object({
+    // Cart subtotal before any discount
+    minSubtotal: z.number().min(0, 'Minimum subtotal must be non-negative').optional(),
+    // Number of distinct cart lines
+    minItems: z.number().int().min(1, 'Minimum items must be at least 1').optional(),
+    // Number of units across all lines
+    minUnits: z.number().int().min(1, 'Minimum units must be at least 1').optional(),
+    // Spend on the category and its subcategories
+    minCategorySpend: z.object({
+        category: ItemCategory,
+        amount: z.number().min(0, 'Minimum category spend must be non-negative')
+    }).optional(),
+    maxDiscount: z.number().min(0, 'Maximum discount must be non-negative').optional()
+});
+
+export type CampaignConditions = z.infer<typeof CampaignConditionsSchema>;
+
+// Fields every campaign schema spreads into its shape
+export const campaignBaseShape = {
+    // Currency of the campaign's amounts, including its conditions; defaults to the cart's
+    currency: CurrencyCode.optional(),
+    // Exclusivity group the stacking policy refers to, e.g. "staff"
+    group: z.string().min(1, 'Group must not be empty').optional(),
+    // Id the budget store tracks the campaign's spend under, e.g. "songkran-2026"
+    id: z.string().min(1, 'Campaign id must not be empty').optional(),
+    // Total discount across all orders, in the campaign's currency (THB without one)
+    budget: z.number().positive('Budget must be positive').optional(),
+    // Orders the campaign may discount across all orders
+    maxRedemptions: z.number().int().min(1, 'Maximum redemptions must be at least 1').optional(),
+    conditions: CampaignConditionsSchema.optional()
+};
+
+export interface CampaignBase {
+    currency?: string;
+    group?: string;
+    id?: string;
+    budget?: number;
+    maxRedemptions?: number;
+    conditions?: CampaignConditions;
+}
+
+// What a campaign has given so far, as recorded in the budget store
+export const BudgetUsageSchema = z.object({
+    // In the campaign's currency
+    spent: z.number().min(0),
+    redemptions: z.number().int().min(0)
+});
+
+export type BudgetUsage = z.infer<typeof BudgetUsageSchema>;
+
+/**
+ * Converts one of the campaign's amounts to integer minor units of the cart's
+ * currency. Amounts in another currency go through the exchange rate table
+ * and are rounded with the cart's rounding policy.
+ */
+export function toCartUnits(amount: number, campaign: CampaignBase, context: CampaignContext): number {
+    const currency = campaign.currency ?? context.currency;
+    if (currency === context.currency) {
+        return toMinorUnits(amount, currency);
+    }
+    return roundMinorUnits(convertAmount(amount, currency, context.currency) * minorUnitsPer(context.currency), context.rounding);
+}
+
+// Trace parameters recording the conversion, empty for campaigns in the cart's currency
+export function conversionParameters(campaign: CampaignBase, context: CampaignContext): Record<string, string | number> {
+    const currency = campaign.currency ?? context.currency;
+    if (currency === context.currency) return {};
+    return { currency, exchangeRate: convertAmount(1, currency, context.currency) };
+}
+
+/**
+ * Returns why the campaign is not eligible for this cart, or undefined when
+ * every condition is met.
+ */
+export function findUnmetCondition(campaign: CampaignBase, context: CampaignContext): string | undefined {
+    const { conditions } = campaign;
+    if (!conditions) return undefined;
+    const currency = campaign.currency ?? context.currency;
+    const cartAmount = (units: number) => formatCurrency(fromMinorUnits(units, context.currency), context.currency);
+
+    const subtotal = context.lineTotals.reduce((sum, lineTotal) => sum + lineTotal, 0);
+    if (conditions.minSubtotal !== undefined && subtotal < toCartUnits(conditions.minSubtotal, campaign, context)) {
+        return `Subtotal ${cartAmount(subtotal)} is below the minimum of ${formatCurrency(conditions.minSubtotal, currency)}`;
+    }
+
+    if (conditions.minItems !== undefined && context.items.length < conditions.minItems) {
+        return `Cart has ${context.items.length} items, at least ${conditions.minItems} required`;
+    }
+
+    const units = context.items.reduce((sum, item) => sum + (item.quantity || 1), 0);
+    if (conditions.minUnits !== undefined && units < conditions.minUnits) {
+        return `Cart has ${units} units, at least ${conditions.minUnits} required`;
+    }
+
+    if (conditions.minCategorySpend) {
+        const { category, amount } = conditions.minCategorySpend;
+        const spend = context.items.reduce((sum, item, index) =>
+            isInCategory(item.category, category) ? sum + (context.lineTotals[index] ?? 0) : sum, 0);
+        if (spend < toCartUnits(amount, campaign, context)) {
+            return `${category} spend ${cartAmount(spend)} is below the minimum of ${formatCurrency(amount, currency)}`;
+        }
+    }
+
+    return undefined;
+}
+
+export function capDiscount(discount: number, campaign: CampaignBase, context: CampaignContext): number {
+    if (campaign.conditions?.maxDiscount === undefined) return discount;
+    return Math.min(discount, toCartUnits(campaign.conditions.maxDiscount, campaign, context));
+}
+
+export function hasBudget(campaign: CampaignBase): boolean {
+    return campaign.budget !== undefined || campaign.maxRedemptions !== undefined;
+}
+
+// One currency for all of a campaign's spend, even when its amounts follow each cart's
+export function budgetCurrency(campaign: CampaignBase): string {
+    return campaign.currency ?? DEFAULT_CURRENCY;
+}
+
+/**
+ * What is left of the campaign's budget in minor units of the cart's
+ * currency, or undefined when the campaign has no budget. Without usage the
+ * whole budget is left.
+ */
+export function remainingBudget(campaign: CampaignBase, usage: BudgetUsage | undefined, context: CampaignContext): number | undefined {
+    if (campaign.budget === undefined) return undefined;
+    return Math.max(0, toCartUnits(campaign.budget - (usage?.spent ?? 0), { currency: budgetCurrency(campaign) }, context));
+}
+
+// Why the campaign cannot give anything more, or undefined while budget and redemptions are left
+export function findBudgetExhaustion(campaign: CampaignBase, usage: BudgetUsage | undefined, context: CampaignContext): string | undefined {
+    if (campaign.maxRedemptions !== undefined && (usage?.redemptions ?? 0) >= campaign.maxRedemptions) {
+        return `Budget exhausted: all ${campaign.maxRedemptions} redemptions are used`;
+    }
+    if (remainingBudget(campaign, usage, context) === 0) {
+        return `Budget exhausted: the ${formatCurrency(campaign.budget!, budgetCurrency(campaign))} budget is spent`;
+    }
+    return undefined;
+}
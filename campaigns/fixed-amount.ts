@@ -0,0 +1,31 @@
+import { z } from 'zod/v4';
+import { formatCurrency } from '../money';
+import { campaignBaseShape, conversionParameters, toCartUnits } from './conditions';
+import { defineCampaign, STAGE } from './types';
+
+export const FixedAmountCampaignSchema = z.object({
+    category: z.literal('Coupon'),
+    type: z.literal('Fixed'),
+    amount: z.number().min(0, 'Amount must be non-negative'),
+    ...campaignBaseShape
+});
+
+export type FixedAmountCampaign = z.infer<typeof FixedAmountCampaignSchema>;
+
+export const fixedAmountCampaign = defineCampaign({
+    name: 'Fixed Amount',
+    category: 'Coupon',
+    type: 'Fixed',
+    schema: FixedAmountCampaignSchema,
+    stage: STAGE.Coupon,
+    example: { category: 'Coupon', type: 'Fixed', amount: 50 },
+    apply: (campaign, context) => ({
+        discount: toCartUnits(campaign.amount, campaign, context),
+        weights: context.itemNets,
+        explanation: {
+            formula: 'amount',
+            parameters: { amount: campaign.amount, ...conversionParameters(campaign, context) }
+        }
+    }),
+    describe: (campaign, currency) => `Fixed Amount Coupon (${formatCurrency(campaign.amount, campaign.currency ?? currency)})`
+});
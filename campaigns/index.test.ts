@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'bun:test';
+import { campaignHandlers, describeCampaign, DiscountCampaignSchema, DiscountType, getCampaignHandler } from './index';
+
+describe('campaign registry', () => {
+    it('should register every campaign type exactly once', () => {
+        const keys = campaignHandlers.map(handler => `${handler.category}:${handler.type}`);
+
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('should list every registered type in DiscountType', () => {
+        expect(DiscountType.options.toSorted()).toEqual([...new Set(campaignHandlers.map(handler => handler.type))].sort());
+    });
+
+    it('should accept every handler example in the union schema', () => {
+        for (const handler of campaignHandlers) {
+            const campaign = DiscountCampaignSchema.parse(handler.example);
+
+            expect(getCampaignHandler(campaign)).toBe(handler as never);
+        }
+    });
+
+    it('should order stages Coupon → On Top → Seasonal', () => {
+        const stageOf = (category: string) => campaignHandlers.find(handler => handler.category === category)!.stage;
+
+        expect(stageOf('Coupon')).toBeLessThan(stageOf('On Top'));
+        expect(stageOf('On Top')).toBeLessThan(stageOf('Seasonal'));
+    });
+
+    it('should describe campaigns for the receipt', () => {
+        expect(describeCampaign({ category: 'Coupon', type: 'Percentage', percentage: 10 })).toBe('Percentage Coupon (10%)');
+        expect(describeCampaign({ category: 'On Top', type: 'Fixed', customerPoints: 68 })).toBe('Points Discount (68 points)');
+    });
+
+    it('should reject unknown campaign types', () => {
+        expect(DiscountCampaignSchema.safeParse({ category: 'Coupon', type: 'Special' }).success).toBe(false);
+    });
+});
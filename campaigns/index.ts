@@ -0,0 +1,69 @@
+import { z } from 'zod/v4';
+import { DEFAULT_CURRENCY } from '../money';
+import { bundleCampaign } from './bundle';
+import { buyXGetYCampaign } from './buy-x-get-y';
+import { categoryDiscountCampaign } from './category-discount';
+import { fixedAmountCampaign } from './fixed-amount';
+import { nthItemCampaign } from './nth-item';
+import { percentageCouponCampaign } from './percentage-coupon';
+import { pointsDiscountCampaign } from './points';
+import { seasonalCampaign } from './seasonal';
+import { shippingDiscountCampaign } from './shipping';
+import { tieredSeasonalCampaign } from './tiered-seasonal';
+import type { CampaignHandler } from './types';
+
+/**
+ * Every supported campaign type. A new promotion is a module exporting a
+ * handler built with defineCampaign, added to this list.
+ */
+export const campaignHandlers = [
+    fixedAmountCampaign,
+    percentageCouponCampaign,
+    categoryDiscountCampaign,
+    pointsDiscountCampaign,
+    buyXGetYCampaign,
+    nthItemCampaign,
+    bundleCampaign,
+    seasonalCampaign,
+    tieredSeasonalCampaign,
+    shippingDiscountCampaign
+] as const;
+
+type SchemasOf<T extends readonly { schema: z.ZodObject }[]> = { -readonly [K in keyof T]: T[K]['schema'] };
+
+// Union schema for all discount campaigns
+export const DiscountCampaignSchema = z.union(
+    campaignHandlers.map(handler => handler.schema) as unknown as SchemasOf<typeof campaignHandlers>
+);
+
+export type DiscountCampaign = z.infer<typeof DiscountCampaignSchema>;
+
+const handlersByKey = new Map<string, CampaignHandler>(
+    campaignHandlers.map(handler => [`${handler.category}:${handler.type}`, handler as unknown as CampaignHandler])
+);
+
+export function getCampaignHandler(campaign: DiscountCampaign): CampaignHandler {
+    const handler = handlersByKey.get(`${campaign.category}:${campaign.type}`);
+    if (!handler) {
+        throw new Error(`Unknown campaign type: ${campaign.category} / ${campaign.type}`);
+    }
+    return handler;
+}
+
+export function describeCampaign(campaign: DiscountCampaign, currency: string = DEFAULT_CURRENCY): string {
+    return getCampaignHandler(campaign).describe(campaign, currency);
+}
+
+export * from './types';
+export * from './conditions';
+export * from './fixed-amount';
+export * from './percentage-coupon';
+export * from './category-discount';
+export * from './points';
+export * from './buy-x-get-y';
+export * from './nth-item';
+export * from './bundle';
+export * from './seasonal';
+export * from './tiered-seasonal';
+export * from './shipping';
+export * from './units';
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'bun:test';
+import { calculateDiscount } from '../discount';
+import type { CartItem, DiscountCampaign } from '../schema';
+
+const tShirt: CartItem = { name: 'T-Shirt', price: 350, category: 'Clothing', quantity: 1 };
+const pants: CartItem = { name: 'Pants', price: 490, category: 'Clothing', quantity: 1 };
+const hat: CartItem = { name: 'Hat', price: 250, category: 'Accessories', quantity: 1 };
+
+describe('item-level campaigns', () => {
+    describe('Buy X Get Y', () => {
+        const buyTwoGetOne: DiscountCampaign = {
+            category: 'On Top',
+            type: 'BuyXGetY',
+            target: { category: 'Clothing' },
+            buyQuantity: 2,
+            freeQuantity: 1
+        };
+
+        it('should make the cheapest matching unit free', () => {
+            const items: CartItem[] = [{ ...pants, quantity: 2 }, tShirt, hat];
+
+            const result = calculateDiscount(items, [buyTwoGetOne]);
+
+            expect(result.totalDiscount).toBe(350);
+            expect(result.appliedCampaigns[0]?.units).toEqual([{ name: 'T-Shirt', quantity: 1, discountAmount: 350 }]);
+            expect(result.itemAllocations.map(a => a.totalDiscount)).toEqual([0, 350, 0]);
+        });
+
+        it('should only count complete sets', () => {
+            const items: CartItem[] = [{ ...tShirt, quantity: 5 }];
+
+            const result = calculateDiscount(items, [buyTwoGetOne]);
+
+            expect(result.totalDiscount).toBe(350);
+        });
+
+        it('should match items by name', () => {
+            const items: CartItem[] = [{ ...tShirt, quantity: 2 }, pants];
+            const campaigns: DiscountCampaign[] = [{ ...buyTwoGetOne, target: { name: 'T-Shirt' } } as DiscountCampaign];
+
+            const result = calculateDiscount(items, campaigns);
+
+            expect(result.totalDiscount).toBe(0);
+        });
+    });
+
+    describe('Nth item', () => {
+        it('should discount every nth unit, cheapest first', () => {
+            const items: CartItem[] = [{ ...tShirt, quantity: 3 }, { ...pants, quantity: 2 }];
+            const campaigns: DiscountCampaign[] = [{
+                category: 'On Top',
+                type: 'NthItem',
+                target: { category: 'Clothing' },
+                nth: 2,
+                percentage: 50
+            }];
+
+            const result = calculateDiscount(items, campaigns);
+
+            // 5 units -> 2 discounted, both T-Shirts: 2 × 175
+            expect(result.totalDiscount).toBe(350);
+            expect(result.appliedCampaigns[0]?.units).toEqual([{ name: 'T-Shirt', quantity: 2, discountAmount: 350 }]);
+        });
+    });
+
+    describe('Bundle', () => {
+        const bundle: DiscountCampaign = {
+            category: 'On Top',
+            type: 'Bundle',
+            components: [{ target: { name: 'T-Shirt' }, quantity: 1 }, { target: { name: 'Hat' }, quantity: 1 }],
+            price: 500
+        };
+
+        it('should sell the bundle at the fixed price', () => {
+            const items: CartItem[] = [{ ...tShirt, quantity: 3 }, hat];
+
+            const result = calculateDiscount(items, [bundle]);
+
+            // Only one complete bundle: 350 + 250 - 500
+            expect(result.totalDiscount).toBe(100);
+            expect(result.appliedCampaigns[0]?.units).toEqual([
+                { name: 'T-Shirt', quantity: 1, discountAmount: 58.33 },
+                { name: 'Hat', quantity: 1, discountAmount: 41.67 }
+            ]);
+        });
+
+        it('should build several bundles when enough units are present', () => {
+            const items: CartItem[] = [{ ...tShirt, quantity: 2 }, { ...hat, quantity: 2 }];
+
+            expect(calculateDiscount(items, [bundle]).totalDiscount).toBe(200);
+        });
+
+        it('should count bundles per line rather than per unit', () => {
+            const items: CartItem[] = [{ ...tShirt, quantity: 200000 }, { ...hat, quantity: 200000 }];
+
+            const result = calculateDiscount(items, [bundle]);
+
+            expect(result.totalDiscount).toBe(20000000);
+            expect(result.appliedCampaigns[0]?.units?.map(unit => unit.quantity)).toEqual([200000, 200000]);
+        });
+
+        it('should not discount when the bundle is not cheaper', () => {
+            const items: CartItem[] = [tShirt, hat];
+            const campaigns: DiscountCampaign[] = [{ ...bundle, price: 700 } as DiscountCampaign];
+
+            expect(calculateDiscount(items, campaigns).totalDiscount).toBe(0);
+        });
+    });
+
+    it('should run in the On Top stage, after coupons', () => {
+        const items: CartItem[] = [{ ...tShirt, quantity: 3 }];
+        const campaigns: DiscountCampaign[] = [
+            { category: 'On Top', type: 'BuyXGetY', target: { name: 'T-Shirt' }, buyQuantity: 2, freeQuantity: 1 },
+            { category: 'Coupon', type: 'Fixed', amount: 50 }
+        ];
+
+        const result = calculateDiscount(items, campaigns);
+
+        expect(result.appliedCampaigns.map(c => c.category)).toEqual(['Coupon', 'On Top']);
+        expect(result.finalTotal).toBe(650);
+    });
+});
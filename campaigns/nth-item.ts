@@ -0,0 +1,58 @@
+import { z } from 'zod/v4';
+import { roundMinorUnits } from '../money';
+import { campaignBaseShape } from './conditions';
+import { defineCampaign, STAGE } from './types';
+import { countUnits, describeSelector, groupUnits, ItemSelectorSchema, summarizeUnits, takeCheapest } from './units';
+
+export const NthItemCampaignSchema = z.object({
+    category: z.literal('On Top'),
+    type: z.literal('NthItem'),
+    target: ItemSelectorSchema,
+    nth: z.number().int().min(2, 'Nth item must be at least 2'),
+    percentage: z.number().min(0).max(100, 'Percentage must be between 0 and 100'),
+    ...campaignBaseShape
+});
+
+export type NthItemCampaign = z.infer<typeof NthItemCampaignSchema>;
+
+export const nthItemCampaign = defineCampaign({
+    name: 'Nth Item',
+    category: 'On Top',
+    type: 'NthItem',
+    schema: NthItemCampaignSchema,
+    stage: STAGE['On Top'],
+    example: { category: 'On Top', type: 'NthItem', target: { name: 'T-Shirt' }, nth: 2, percentage: 50 },
+    apply: (campaign, context) => {
+        // One unit in every nth gets the discount, always the cheapest ones
+        const groups = groupUnits(context, campaign.target);
+        const matchingUnits = countUnits(groups);
+        const discountedUnits = takeCheapest(groups, Math.floor(matchingUnits / campaign.nth));
+        // Every unit is rounded on its own, as on a till
+        const discounts = discountedUnits.map(({ item, price, quantity }) => ({
+            item,
+            quantity,
+            discount: roundMinorUnits((price * campaign.percentage) / 100, context.rounding) * quantity
+        }));
+
+        return {
+            discount: discounts.reduce((sum, { discount }) => sum + discount, 0),
+            ...summarizeUnits(context, discounts),
+            explanation: {
+                formula: 'cheapest floor(matching units / nth) units × percentage / 100',
+                parameters: {
+                    matchingUnits,
+                    nth: campaign.nth,
+                    discountedUnits: countUnits(discountedUnits),
+                    percentage: campaign.percentage
+                }
+            }
+        };
+    },
+    describe: campaign => `Every ${ordinal(campaign.nth)} Item ${campaign.percentage}% Off (${describeSelector(campaign.target)})`
+});
+
+function ordinal(n: number): string {
+    const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : suffixes[n % 10] ?? 'th';
+    return `${n}${suffix}`;
+}
@@ -0,0 +1,31 @@
+import { z } from 'zod/v4';
+import { fromMinorUnits, roundMinorUnits } from '../money';
+import { campaignBaseShape } from './conditions';
+import { defineCampaign, STAGE } from './types';
+
+export const PercentageCouponCampaignSchema = z.object({
+    category: z.literal('Coupon'),
+    type: z.literal('Percentage'),
+    percentage: z.number().min(0).max(100, 'Percentage must be between 0 and 100'),
+    ...campaignBaseShape
+});
+
+export type PercentageCouponCampaign = z.infer<typeof PercentageCouponCampaignSchema>;
+
+export const percentageCouponCampaign = defineCampaign({
+    name: 'Percentage',
+    category: 'Coupon',
+    type: 'Percentage',
+    schema: PercentageCouponCampaignSchema,
+    stage: STAGE.Coupon,
+    example: { category: 'Coupon', type: 'Percentage', percentage: 10 },
+    apply: (campaign, context) => ({
+        discount: roundMinorUnits((context.currentTotal * campaign.percentage) / 100, context.rounding),
+        weights: context.itemNets,
+        explanation: {
+            formula: 'running total × percentage / 100',
+            parameters: { runningTotal: fromMinorUnits(context.currentTotal, context.currency), percentage: campaign.percentage }
+        }
+    }),
+    describe: campaign => `Percentage Coupon (${campaign.percentage}%)`
+});
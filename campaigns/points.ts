@@ -0,0 +1,56 @@
+import { z } from 'zod/v4';
+import { convertAmount } from '../currency';
+import { fromMinorUnits, minorUnitsPer, roundMinorUnits } from '../money';
+import { campaignBaseShape, conversionParameters, toCartUnits } from './conditions';
+import { defineCampaign, STAGE } from './types';
+
+// Defaults for programs that do not set their own cap and ratio
+export const POINTS_CAP_PERCENTAGE = 0.2; // 20%
+export const POINTS_TO_THB_RATIO = 1;
+
+export const PointsDiscountCampaignSchema = z.object({
+    category: z.literal('On Top'),
+    type: z.literal('Fixed'),
+    customerPoints: z.number().int().min(0, 'Customer points must be non-negative'),
+    // THB (or the campaign's currency) one point is worth
+    pointsToThbRatio: z.number().positive('Points to THB ratio must be positive').optional(),
+    // Share of the running total points may pay for, in percent
+    capPercentage: z.number().min(0).max(100, 'Cap percentage must be between 0 and 100').optional(),
+    ...campaignBaseShape
+});
+
+export type PointsDiscountCampaign = z.infer<typeof PointsDiscountCampaignSchema>;
+
+export const pointsDiscountCampaign = defineCampaign({
+    name: 'Points Discount',
+    category: 'On Top',
+    type: 'Fixed',
+    schema: PointsDiscountCampaignSchema,
+    stage: STAGE['On Top'],
+    example: { category: 'On Top', type: 'Fixed', customerPoints: 68 },
+    apply: (campaign, context) => {
+        const ratio = campaign.pointsToThbRatio ?? POINTS_TO_THB_RATIO;
+        const capPercentage = campaign.capPercentage ?? POINTS_CAP_PERCENTAGE * 100;
+        const pointsValue = toCartUnits(campaign.customerPoints * ratio, campaign, context);
+        const cap = roundMinorUnits((context.currentTotal * capPercentage) / 100, context.rounding);
+        return {
+            discount: Math.min(pointsValue, cap),
+            weights: context.itemNets,
+            pointValue: convertAmount(ratio, campaign.currency ?? context.currency, context.currency) * minorUnitsPer(context.currency),
+            explanation: {
+                formula: 'min(customerPoints × pointsToThbRatio, running total × capPercentage / 100)',
+                parameters: {
+                    customerPoints: campaign.customerPoints,
+                    pointsToThbRatio: ratio,
+                    pointsValue: fromMinorUnits(pointsValue, context.currency),
+                    runningTotal: fromMinorUnits(context.currentTotal, context.currency),
+                    capPercentage,
+                    cap: fromMinorUnits(cap, context.currency),
+                    capHit: pointsValue > cap,
+                    ...conversionParameters(campaign, context)
+                }
+            }
+        };
+    },
+    describe: campaign => `Points Discount (${campaign.customerPoints} points)`
+});
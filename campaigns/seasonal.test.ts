@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'bun:test';
+import { calculateDiscount } from '../discount';
+import { DiscountCampaignSchema, type CartItem, type DiscountCampaign } from '../schema';
+
+const laptop: CartItem = { name: 'Laptop', price: 3200, category: 'Electronics', quantity: 1 };
+const shirt: CartItem = { name: 'Shirt', price: 900, category: 'Clothing', quantity: 1 };
+
+const tiered: DiscountCampaign = {
+    category: 'Seasonal',
+    type: 'Tiered',
+    tiers: [{ minSpend: 1000, discount: 80 }, { minSpend: 3000, discount: 300 }, { minSpend: 5000, discount: 600 }]
+};
+
+describe('seasonal campaigns', () => {
+    describe('Tiered', () => {
+        it('should give the discount of the highest tier reached', () => {
+            const result = calculateDiscount([laptop, shirt], [tiered], { trace: true });
+
+            expect(result.totalDiscount).toBe(300);
+            expect(result.trace?.[0]?.parameters).toMatchObject({ runningTotal: 4100, tier: '2 of 3', minSpend: 3000, tierDiscount: 300 });
+        });
+
+        it('should use the running total after earlier campaigns', () => {
+            const coupon: DiscountCampaign = { category: 'Coupon', type: 'Fixed', amount: 200 };
+
+            const result = calculateDiscount([laptop], [coupon, tiered]);
+
+            // 3,200 - 200 = 3,000 still reaches the second tier
+            expect(result.appliedCampaigns.map(campaign => campaign.discountAmount)).toEqual([200, 300]);
+        });
+
+        it('should give nothing below the first tier', () => {
+            const result = calculateDiscount([shirt], [tiered]);
+
+            expect(result.totalDiscount).toBe(0);
+        });
+
+        it('should only count spend on the target category', () => {
+            const campaign = { ...tiered, targetCategory: 'Clothing' } as DiscountCampaign;
+
+            const result = calculateDiscount([laptop, shirt, { ...shirt, name: 'Jacket', price: 400 }], [campaign]);
+
+            expect(result.totalDiscount).toBe(80);
+            expect(result.itemAllocations.map(allocation => allocation.totalDiscount)).toEqual([0, 55.38, 24.62]);
+        });
+
+        it('should describe every tier on the receipt', () => {
+            const result = calculateDiscount([shirt], [{ ...tiered, targetCategory: 'Electronics' } as DiscountCampaign]);
+
+            expect(result.appliedCampaigns[0]?.description)
+                .toBe('Tiered Seasonal on Electronics (80.00 THB off 1,000.00 THB, 300.00 THB off 3,000.00 THB, 600.00 THB off 5,000.00 THB)');
+        });
+
+        it('should require tiers in increasing order of minSpend', () => {
+            const parsed = DiscountCampaignSchema.safeParse({ ...tiered, tiers: [{ minSpend: 3000, discount: 300 }, { minSpend: 1000, discount: 80 }] });
+
+            expect(parsed.success).toBe(false);
+        });
+    });
+
+    describe('Special with a target category', () => {
+        it('should count every X THB of the category spend only', () => {
+            const campaign: DiscountCampaign = { category: 'Seasonal', type: 'Special', everyXThb: 1000, discountYThb: 100, targetCategory: 'Electronics' };
+
+            const result = calculateDiscount([laptop, shirt], [campaign]);
+
+            expect(result.totalDiscount).toBe(300);
+            expect(result.itemAllocations.map(allocation => allocation.totalDiscount)).toEqual([300, 0]);
+            expect(result.appliedCampaigns[0]?.description).toBe('Seasonal (100.00 THB per 1,000.00 THB of Electronics)');
+        });
+    });
+});
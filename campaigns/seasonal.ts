@@ -0,0 +1,76 @@
+import { z } from 'zod/v4';
+import { isInCategory, ItemCategory } from '../categories';
+import { formatCurrency, fromMinorUnits } from '../money';
+import { campaignBaseShape, conversionParameters, toCartUnits } from './conditions';
+import { defineCampaign, STAGE, type CampaignContext } from './types';
+
+// everyXThb and discountYThb are in the campaign's currency, THB unless set
+export const SeasonalCampaignSchema = z.object({
+    category: z.literal('Seasonal'),
+    type: z.literal('Special'),
+    everyXThb: z.number().min(1, 'Every X THB must be at least 1'),
+    discountYThb: z.number().min(1, 'Discount Y THB must be at least 1'),
+    // Only spend on this category and its subcategories counts
+    targetCategory: ItemCategory.optional(),
+    ...campaignBaseShape
+});
+
+export type SeasonalCampaign = z.infer<typeof SeasonalCampaignSchema>;
+
+/**
+ * The spend a seasonal campaign is based on: the running total, or with a
+ * target category the running net of that category's lines, which then also
+ * carry the whole discount.
+ */
+export function seasonalSpend(targetCategory: string | undefined, context: CampaignContext): { spend: number; weights: number[]; parameters: Record<string, string | number> } {
+    if (targetCategory === undefined) {
+        return {
+            spend: context.currentTotal,
+            weights: context.itemNets,
+            parameters: { runningTotal: fromMinorUnits(context.currentTotal, context.currency) }
+        };
+    }
+
+    const weights = context.items.map((item, index) => isInCategory(item.category, targetCategory) ? context.itemNets[index] ?? 0 : 0);
+    const spend = weights.reduce((sum, weight) => sum + weight, 0);
+    return {
+        spend,
+        weights,
+        parameters: { targetCategory, categoryTotal: fromMinorUnits(spend, context.currency) }
+    };
+}
+
+export const seasonalCampaign = defineCampaign({
+    name: 'Special',
+    category: 'Seasonal',
+    type: 'Special',
+    schema: SeasonalCampaignSchema,
+    stage: STAGE.Seasonal,
+    example: { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40 },
+    // Whole multiples of everyXThb only, so no rounding is needed
+    apply: (campaign, context) => {
+        const { spend, weights, parameters } = seasonalSpend(campaign.targetCategory, context);
+        const multiples = Math.floor(spend / toCartUnits(campaign.everyXThb, campaign, context));
+        return {
+            discount: multiples * toCartUnits(campaign.discountYThb, campaign, context),
+            weights,
+            explanation: {
+                formula: campaign.targetCategory === undefined
+                    ? 'floor(running total / everyXThb) × discountYThb'
+                    : 'floor(targetCategory running total / everyXThb) × discountYThb',
+                parameters: {
+                    ...parameters,
+                    everyXThb: campaign.everyXThb,
+                    discountYThb: campaign.discountYThb,
+                    multiples,
+                    ...conversionParameters(campaign, context)
+                }
+            }
+        };
+    },
+    describe: (campaign, currency) => {
+        const campaignCurrency = campaign.currency ?? currency;
+        const scope = campaign.targetCategory === undefined ? '' : ` of ${campaign.targetCategory}`;
+        return `Seasonal (${formatCurrency(campaign.discountYThb, campaignCurrency)} per ${formatCurrency(campaign.everyXThb, campaignCurrency)}${scope})`;
+    }
+});
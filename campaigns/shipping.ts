@@ -0,0 +1,37 @@
+import { z } from 'zod/v4';
+import { formatCurrency, fromMinorUnits, roundMinorUnits } from '../money';
+import { campaignBaseShape } from './conditions';
+import { defineCampaign, STAGE } from './types';
+
+export const ShippingDiscountCampaignSchema = z.object({
+    category: z.literal('Shipping'),
+    type: z.literal('Discount'),
+    // Share of the shipping fee taken off; 100 makes shipping free
+    percentage: z.number().min(0).max(100, 'Percentage must be between 0 and 100').optional().default(100),
+    ...campaignBaseShape
+});
+
+export type ShippingDiscountCampaign = z.infer<typeof ShippingDiscountCampaignSchema>;
+
+// Only discounts the shipping fee; maxDiscount turns it into a fixed amount off shipping
+export const shippingDiscountCampaign = defineCampaign({
+    name: 'Shipping Discount',
+    category: 'Shipping',
+    type: 'Discount',
+    schema: ShippingDiscountCampaignSchema,
+    stage: STAGE.Shipping,
+    example: { category: 'Shipping', type: 'Discount', percentage: 100 },
+    apply: (campaign, context) => ({
+        discount: roundMinorUnits((context.shippingFee * campaign.percentage) / 100, context.rounding),
+        weights: context.items.map(() => 0),
+        explanation: {
+            formula: 'shipping fee × percentage / 100',
+            parameters: { shippingFee: fromMinorUnits(context.shippingFee, context.currency), percentage: campaign.percentage }
+        }
+    }),
+    describe: (campaign, currency) => {
+        if (campaign.percentage < 100) return `Shipping Discount (${campaign.percentage}%)`;
+        const maxDiscount = campaign.conditions?.maxDiscount;
+        return maxDiscount === undefined ? 'Free Shipping' : `Shipping Discount (${formatCurrency(maxDiscount, campaign.currency ?? currency)} off)`;
+    }
+});
@@ -0,0 +1,70 @@
+import { z } from 'zod/v4';
+import { ItemCategory } from '../categories';
+import { formatCurrency } from '../money';
+import { campaignBaseShape, conversionParameters, toCartUnits } from './conditions';
+import { seasonalSpend } from './seasonal';
+import { defineCampaign, STAGE } from './types';
+
+export const SeasonalTierSchema = z.object({
+    minSpend: z.number().min(0, 'Tier minimum spend must be non-negative'),
+    discount: z.number().min(0, 'Tier discount must be non-negative')
+});
+
+// Amounts are in the campaign's currency, THB unless set
+export const TieredSeasonalCampaignSchema = z.object({
+    category: z.literal('Seasonal'),
+    type: z.literal('Tiered'),
+    tiers: z.array(SeasonalTierSchema).min(1, 'At least one tier is required').refine(
+        tiers => tiers.every((tier, index) => index === 0 || tier.minSpend > tiers[index - 1]!.minSpend),
+        'Tiers must be listed by increasing minSpend'
+    ),
+    // Only spend on this category and its subcategories counts
+    targetCategory: ItemCategory.optional(),
+    ...campaignBaseShape
+});
+
+export type SeasonalTier = z.infer<typeof SeasonalTierSchema>;
+export type TieredSeasonalCampaign = z.infer<typeof TieredSeasonalCampaignSchema>;
+
+export const tieredSeasonalCampaign = defineCampaign({
+    name: 'Tiered',
+    category: 'Seasonal',
+    type: 'Tiered',
+    schema: TieredSeasonalCampaignSchema,
+    stage: STAGE.Seasonal,
+    example: {
+        category: 'Seasonal',
+        type: 'Tiered',
+        tiers: [{ minSpend: 1000, discount: 80 }, { minSpend: 3000, discount: 300 }, { minSpend: 5000, discount: 600 }]
+    },
+    // Only the highest tier reached counts; tiers do not add up
+    apply: (campaign, context) => {
+        const { spend, weights, parameters } = seasonalSpend(campaign.targetCategory, context);
+        const reached = campaign.tiers.findLastIndex(tier => spend >= toCartUnits(tier.minSpend, campaign, context));
+        const tier = campaign.tiers[reached];
+        return {
+            discount: tier ? toCartUnits(tier.discount, campaign, context) : 0,
+            weights,
+            explanation: {
+                formula: campaign.targetCategory === undefined
+                    ? 'discount of the highest tier whose minSpend ≤ running total'
+                    : 'discount of the highest tier whose minSpend ≤ targetCategory running total',
+                parameters: {
+                    ...parameters,
+                    tier: tier ? `${reached + 1} of ${campaign.tiers.length}` : 'none',
+                    ...(tier && { minSpend: tier.minSpend, tierDiscount: tier.discount }),
+                    ...conversionParameters(campaign, context)
+                }
+            }
+        };
+    },
+    // e.g. "Tiered Seasonal (80.00 THB off 1,000.00 THB, 300.00 THB off 3,000.00 THB)"
+    describe: (campaign, currency) => {
+        const campaignCurrency = campaign.currency ?? currency;
+        const tiers = campaign.tiers
+            .map(tier => `${formatCurrency(tier.discount, campaignCurrency)} off ${formatCurrency(tier.minSpend, campaignCurrency)}`)
+            .join(', ');
+        const scope = campaign.targetCategory === undefined ? '' : ` on ${campaign.targetCategory}`;
+        return `Tiered Seasonal${scope} (${tiers})`;
+    }
+});
@@ -0,0 +1,84 @@
+import { z } from 'zod/v4';
+import type { CartItem, RoundingPolicy } from '../schema';
+
+// Enums
+export const CampaignCategory = z.enum(['Coupon', 'On Top', 'Seasonal', 'Shipping']);
+// Every type a registered handler uses; handlers are typed against it
+export const DiscountType = z.enum(['Fixed', 'Percentage', 'Special', 'BuyXGetY', 'NthItem', 'Bundle', 'Tiered', 'Discount']);
+
+export type CampaignCategory = z.infer<typeof CampaignCategory>;
+export type DiscountType = z.infer<typeof DiscountType>;
+
+/**
+ * Snapshot of the cart handed to a campaign when its stage runs. All amounts
+ * are integer minor units of the cart's currency (satang for THB).
+ */
+export interface CampaignContext {
+    items: CartItem[];
+    // ISO 4217 code of the cart, e.g. THB
+    currency: string;
+    // Original price × quantity of every line
+    lineTotals: number[];
+    // Net price of every line after the campaigns applied so far
+    itemNets: number[];
+    // Running cart total after the campaigns applied so far; items only, never shipping
+    currentTotal: number;
+    // Shipping fee left after the shipping campaigns applied so far. It is
+    // settled once every item campaign has run, so item campaigns see 0
+    shippingFee: number;
+    rounding: RoundingPolicy;
+}
+
+// Units of one cart line that an item-level campaign discounted
+export interface DiscountedUnits {
+    item: number;
+    quantity: number;
+    discount: number;
+}
+
+// How a campaign arrived at its discount, shown by the explain trace
+export interface CampaignExplanation {
+    // e.g. "floor(running total / everyXThb) × discountYThb"
+    formula: string;
+    // Values plugged into the formula; amounts in the campaign's currency
+    parameters: Record<string, number | string | boolean>;
+}
+
+export interface CampaignOutcome {
+    // Discount in whole minor units; the pipeline caps it at the running total
+    discount: number;
+    // Relative share of the discount each line should carry
+    weights: number[];
+    // Item-level campaigns report which units they discounted
+    units?: DiscountedUnits[];
+    // Minor units one loyalty point is worth, for campaigns paid with points; the
+    // pipeline reports the points used once every cap has been applied
+    pointValue?: number;
+    explanation: CampaignExplanation;
+}
+
+export interface CampaignHandler<S extends z.ZodObject = z.ZodObject> {
+    // Human readable name used in the CLI help
+    name: string;
+    category: CampaignCategory;
+    type: DiscountType;
+    schema: S;
+    // Lower stages run first: Coupon (100) → On Top (200) → Seasonal (300) → Shipping (400)
+    stage: number;
+    example: z.input<S>;
+    apply(campaign: z.output<S>, context: CampaignContext): CampaignOutcome;
+    // Receipt line, e.g. "Percentage Coupon (10%)"; currency is the cart's,
+    // which amounts are in unless the campaign names its own
+    describe(campaign: z.output<S>, currency: string): string;
+}
+
+export const STAGE = {
+    Coupon: 100,
+    'On Top': 200,
+    Seasonal: 300,
+    Shipping: 400
+} as const satisfies Record<CampaignCategory, number>;
+
+export function defineCampaign<S extends z.ZodObject>(handler: CampaignHandler<S>): CampaignHandler<S> {
+    return handler;
+}
@@ -0,0 +1,84 @@
+import { z } from 'zod/v4';
+import { isInCategory, ItemCategory } from '../categories';
+import type { CartItem } from '../schema';
+import type { CampaignContext, DiscountedUnits } from './types';
+
+// Picks cart lines by item name, category (including its subcategories), or both
+export const ItemSelectorSchema = z.object({
+    name: z.string().min(1).optional(),
+    category: ItemCategory.optional()
+}).refine(selector => selector.name !== undefined || selector.category !== undefined, {
+    message: 'Selector needs an item name or category'
+});
+
+export type ItemSelector = z.infer<typeof ItemSelectorSchema>;
+
+// The units of a cart line, priced at its original unit price in minor units
+export interface UnitGroup {
+    item: number;
+    price: number;
+    quantity: number;
+}
+
+export function matchesSelector(item: CartItem, selector: ItemSelector): boolean {
+    return (selector.name === undefined || item.name === selector.name)
+        && (selector.category === undefined || isInCategory(item.category, selector.category));
+}
+
+export function describeSelector(selector: ItemSelector): string {
+    return [selector.name, selector.category].filter(Boolean).join(' / ');
+}
+
+/**
+ * Groups the units of the matching lines (every line without a selector),
+ * most expensive first. Units are counted per line rather than listed one by
+ * one, so the work does not grow with the quantities.
+ */
+export function groupUnits(context: CampaignContext, selector?: ItemSelector): UnitGroup[] {
+    return context.items
+        .flatMap((item, index) => {
+            if (selector && !matchesSelector(item, selector)) return [];
+            const quantity = item.quantity || 1;
+            return [{ item: index, price: (context.lineTotals[index] ?? 0) / quantity, quantity }];
+        })
+        .sort((a, b) => b.price - a.price || a.item - b.item);
+}
+
+export function countUnits(groups: UnitGroup[]): number {
+    return groups.reduce((sum, group) => sum + group.quantity, 0);
+}
+
+// The cheapest count units of the groups
+export function takeCheapest(groups: UnitGroup[], count: number): UnitGroup[] {
+    const taken: UnitGroup[] = [];
+    let left = count;
+    for (let index = groups.length - 1; index >= 0 && left > 0; index--) {
+        const group = groups[index]!;
+        const quantity = Math.min(left, group.quantity);
+        taken.push({ ...group, quantity });
+        left -= quantity;
+    }
+    return taken.reverse();
+}
+
+/**
+ * Collapses the discounted units into one entry per line and the matching
+ * allocation weights.
+ */
+export function summarizeUnits(context: CampaignContext, discounts: DiscountedUnits[]): { units: DiscountedUnits[]; weights: number[] } {
+    const weights = context.items.map(() => 0);
+    const byItem = new Map<number, DiscountedUnits>();
+
+    for (const { item, quantity, discount } of discounts) {
+        weights[item] = (weights[item] ?? 0) + discount;
+        const entry = byItem.get(item) ?? { item, quantity: 0, discount: 0 };
+        entry.quantity += quantity;
+        entry.discount += discount;
+        byItem.set(item, entry);
+    }
+
+    return {
+        units: [...byItem.values()].sort((a, b) => a.item - b.item),
+        weights
+    };
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, it, expect } from 'bun:test';
+import { categoryPath, DEFAULT_CATEGORY_CATALOG, isInCategory, setCategoryCatalog } from './categories';
+import { calculateDiscount } from './discount';
+import { CartItemSchema, type CartItem } from './schema';
+
+const catalog = {
+    categories: [
+        { name: 'Clothing', children: [{ name: 'Shirts', children: [{ name: 'Polo' }] }, { name: 'Pants' }] },
+        { name: 'Groceries' }
+    ]
+};
+
+describe('Category catalog', () => {
+    beforeEach(() => setCategoryCatalog(catalog));
+    afterEach(() => setCategoryCatalog(DEFAULT_CATEGORY_CATALOG));
+
+    it('should match a category and all its descendants', () => {
+        expect(isInCategory('Polo', 'Clothing')).toBe(true);
+        expect(isInCategory('Polo', 'Shirts')).toBe(true);
+        expect(isInCategory('Shirts', 'Shirts')).toBe(true);
+        expect(isInCategory('Pants', 'Shirts')).toBe(false);
+        expect(isInCategory('Clothing', 'Shirts')).toBe(false);
+        expect(categoryPath('Polo')).toBe('Clothing > Shirts > Polo');
+    });
+
+    it('should validate item categories against the loaded catalog', () => {
+        expect(CartItemSchema.safeParse({ name: 'Rice', price: 50, category: 'Groceries' }).success).toBe(true);
+
+        const result = CartItemSchema.safeParse({ name: 'Phone', price: 5000, category: 'Electronics' });
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0]?.message).toContain('Unknown category: Electronics');
+    });
+
+    it('should reject catalogs with duplicate categories', () => {
+        expect(() => setCategoryCatalog({ categories: [{ name: 'Shirts' }, { name: 'Clothing', children: [{ name: 'Shirts' }] }] }))
+            .toThrow('Duplicate category: Shirts');
+    });
+
+    it('should apply a category discount to the subcategories', () => {
+        const items: CartItem[] = [
+            { name: 'Polo', price: 500, category: 'Polo', quantity: 1 },
+            { name: 'Jeans', price: 1000, category: 'Pants', quantity: 1 },
+            { name: 'Rice', price: 100, category: 'Groceries', quantity: 1 }
+        ];
+
+        const shirts = calculateDiscount(items, [{ category: 'On Top', type: 'Percentage', targetCategory: 'Shirts', percentage: 10 }]);
+        const clothing = calculateDiscount(items, [{ category: 'On Top', type: 'Percentage', targetCategory: 'Clothing', percentage: 10 }]);
+
+        expect(shirts.totalDiscount).toBe(50);
+        expect(clothing.totalDiscount).toBe(150);
+    });
+});
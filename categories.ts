@@ -0,0 +1,108 @@
+import { z } from 'zod/v4';
+
+// Item category catalog: a tree such as Clothing > Shirts
+export const CategoryNodeSchema = z.object({
+    name: z.string().min(1, 'Category name is required'),
+    get children() {
+        return z.array(CategoryNodeSchema).optional();
+    }
+});
+
+export const CategoryCatalogSchema = z.object({
+    categories: z.array(CategoryNodeSchema).min(1, 'Catalog must contain at least one category')
+}).superRefine((data, ctx) => {
+    const seen = new Set<string>();
+    const visit = (nodes: CategoryNode[]) => nodes.forEach(node => {
+        if (seen.has(node.name)) {
+            ctx.addIssue({ code: 'custom', message: `Duplicate category: ${node.name}`, path: ['categories'] });
+        }
+        seen.add(node.name);
+        visit(node.children ?? []);
+    });
+    visit(data.categories);
+});
+
+export type CategoryNode = z.infer<typeof CategoryNodeSchema>;
+export type CategoryCatalogConfig = z.infer<typeof CategoryCatalogSchema>;
+
+// Used until another catalog is loaded
+export const DEFAULT_CATEGORY_CATALOG: CategoryCatalogConfig = {
+    categories: [
+        { name: 'Clothing' },
+        { name: 'Accessories' },
+        { name: 'Electronics' }
+    ]
+};
+
+/**
+ * Flattened catalog: every category with its parent (undefined for top-level
+ * categories), in catalog order.
+ */
+export interface CategoryCatalog {
+    config: CategoryCatalogConfig;
+    parents: Map<string, string | undefined>;
+}
+
+export function createCategoryCatalog(config: CategoryCatalogConfig): CategoryCatalog {
+    const parents = new Map<string, string | undefined>();
+    const visit = (nodes: CategoryNode[], parent: string | undefined) => nodes.forEach(node => {
+        parents.set(node.name, parent);
+        visit(node.children ?? [], node.name);
+    });
+    visit(config.categories, undefined);
+    return { config, parents };
+}
+
+let activeCatalog = createCategoryCatalog(DEFAULT_CATEGORY_CATALOG);
+
+export function getCategoryCatalog(): CategoryCatalog {
+    return activeCatalog;
+}
+
+// Replaces the catalog item categories are validated and matched against
+export function setCategoryCatalog(config: CategoryCatalogConfig): CategoryCatalog {
+    activeCatalog = createCategoryCatalog(CategoryCatalogSchema.parse(config));
+    return activeCatalog;
+}
+
+export async function loadCategoryCatalog(path: string): Promise<CategoryCatalog> {
+    return setCategoryCatalog(await Bun.file(path).json());
+}
+
+export function isKnownCategory(category: string): boolean {
+    return activeCatalog.parents.has(category);
+}
+
+/**
+ * True when the category is the given node or one of its descendants, so a
+ * Clothing campaign also covers Clothing > Shirts.
+ */
+export function isInCategory(category: string, node: string): boolean {
+    const seen = new Set<string>();
+    for (let current: string | undefined = category; current !== undefined && !seen.has(current); current = activeCatalog.parents.get(current)) {
+        if (current === node) return true;
+        seen.add(current);
+    }
+    return false;
+}
+
+// "Clothing > Shirts"
+export function categoryPath(category: string): string {
+    const path: string[] = [];
+    for (let current: string | undefined = category; current !== undefined && !path.includes(current); current = activeCatalog.parents.get(current)) {
+        path.unshift(current);
+    }
+    return path.join(' > ');
+}
+
+// Checked against the catalog loaded at validation time
+export const ItemCategory = z.string().superRefine((category, ctx) => {
+    if (!isKnownCategory(category)) {
+        ctx.addIssue({
+            code: 'custom',
+            message: `Unknown category: ${category} (expected one of ${[...activeCatalog.parents.keys()].join(', ')})`
+        });
+    }
+});
+
+export type ItemCategory = z.infer<typeof ItemCategory>;
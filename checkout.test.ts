@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'bun:test';
+import { getBudgetUsage, openBudgetStore } from './budgets';
+import { placeOrder } from './checkout';
+import { applyCoupons, checkCoupons, CouponSchema, openCouponRegistry, redeemCoupons, saveCoupons } from './coupons';
+import { calculateDiscount } from './discount';
+import { adjustPoints, applyLoyalty, getPointsBalance, LoyaltyProgramSchema, openLoyaltyLedger, saveLoyaltyPrograms } from './loyalty';
+import type { Cart } from './schema';
+
+function stores() {
+    const budgets = openBudgetStore(':memory:');
+    const coupons = openCouponRegistry(':memory:');
+    saveCoupons(coupons, [CouponSchema.parse({ code: 'LAST', campaign: { category: 'Coupon', type: 'Fixed', amount: 100 }, maxRedemptions: 1 })]);
+    const loyalty = openLoyaltyLedger(':memory:');
+    saveLoyaltyPrograms(loyalty, [LoyaltyProgramSchema.parse({ id: 'default' })]);
+    adjustPoints(loyalty, [{ customerId: 'c-1', program: 'default', points: 100 }]);
+    return { budgets, coupons, loyalty };
+}
+
+const cart: Cart = {
+    items: [{ name: 'Jacket', price: 1000, category: 'Clothing', quantity: 1 }],
+    discounts: [{ category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40, id: 'songkran', budget: 1000 }],
+    couponCodes: ['LAST'],
+    customerId: 'c-1',
+    loyalty: { program: 'default', redeemPoints: 100 }
+};
+
+// Resolves and calculates the cart the way a checkout does before placing the order
+function prepare({ budgets, coupons, loyalty }: ReturnType<typeof stores>) {
+    const withCoupons = applyCoupons(coupons, cart);
+    if (!withCoupons.ok) throw new Error(withCoupons.issues[0]!.message);
+    const withPoints = applyLoyalty(loyalty, withCoupons.cart);
+    if (!withPoints.ok) throw new Error(withPoints.issues[0]!.message);
+    const resolved = withPoints.cart;
+    return { resolved, result: calculateDiscount(resolved.items, resolved.discounts, { budgets: getBudgetUsage(budgets, resolved) }) };
+}
+
+describe('Placing an order', () => {
+    it('should spend budgets, redeem coupons and burn points together', () => {
+        const db = stores();
+        const { resolved, result } = prepare(db);
+
+        expect(placeOrder(db, resolved, result, true)).toMatchObject({ ok: true, result: { loyalty: { pointsRedeemed: 100, committed: true } } });
+        expect(getBudgetUsage(db.budgets, resolved)).toEqual({ songkran: { spent: 80, redemptions: 1 } });
+        expect(checkCoupons(db.coupons, ['LAST'])).toMatchObject({ ok: false, issues: [{ code: 'EXHAUSTED' }] });
+    });
+
+    it('should release the budget when the coupon was redeemed by another order first', () => {
+        const db = stores();
+        const { resolved, result } = prepare(db);
+        redeemCoupons(db.coupons, ['LAST']);
+
+        expect(placeOrder(db, resolved, result, true)).toMatchObject({ ok: false, failed: 'coupons', issues: [{ code: 'EXHAUSTED' }] });
+        expect(getBudgetUsage(db.budgets, resolved)).toEqual({ songkran: { spent: 0, redemptions: 0 } });
+    });
+
+    it('should release the budget and the coupon when the points were spent by another order first', () => {
+        const db = stores();
+        const { resolved, result } = prepare(db);
+        adjustPoints(db.loyalty, [{ customerId: 'c-1', program: 'default', points: -50 }]);
+
+        expect(placeOrder(db, resolved, result, true)).toMatchObject({ ok: false, failed: 'loyalty', issues: [{ code: 'INSUFFICIENT_POINTS' }] });
+        expect(getBudgetUsage(db.budgets, resolved)).toEqual({ songkran: { spent: 0, redemptions: 0 } });
+        expect(checkCoupons(db.coupons, ['LAST']).ok).toBe(true);
+        expect(getPointsBalance(db.loyalty, 'c-1', 'default')).toBe(50);
+    });
+});
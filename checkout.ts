@@ -0,0 +1,59 @@
+import type { Database } from "bun:sqlite";
+import { commitBudgets, releaseBudgets, type BudgetIssue } from "./budgets";
+import { redeemCoupons, releaseCoupons, type CouponIssue } from "./coupons";
+import { settleLoyalty, type LoyaltyIssue } from "./loyalty";
+import type { Cart, DiscountResult } from "./schema";
+
+// The stores an order is recorded in; each one is optional
+export interface OrderStores {
+    budgets?: Database;
+    coupons?: Database;
+    loyalty?: Database;
+}
+
+export type OrderOutcome =
+    | { ok: true; result: DiscountResult }
+    | { ok: false; failed: "budgets"; issues: BudgetIssue[] }
+    | { ok: false; failed: "coupons"; issues: CouponIssue[] }
+    | { ok: false; failed: "loyalty"; issues: LoyaltyIssue[] };
+
+/**
+ * Records a calculated order: spends the campaign budgets, redeems the
+ * coupon codes and burns and earns the loyalty points, in that order. The
+ * stores may be separate databases, so each step commits on its own; when a
+ * later step fails, because a concurrent checkout got there first, the
+ * budget spends and coupon redemptions already recorded are released again,
+ * so an order that is not placed uses up nothing. Without commit only the
+ * points movement is previewed.
+ */
+export function placeOrder(stores: OrderStores, cart: Cart, result: DiscountResult, commit: boolean, now: Date = new Date()): OrderOutcome {
+    const release: (() => void)[] = [];
+    const rollBack = () => release.reverse().forEach(undo => undo());
+
+    if (commit && stores.budgets) {
+        const budgets = stores.budgets;
+        const spent = commitBudgets(budgets, cart, result, now);
+        if (!spent.ok) return { ok: false, failed: "budgets", issues: spent.issues };
+        release.push(() => releaseBudgets(budgets, spent.spendIds));
+    }
+
+    if (commit && stores.coupons && cart.couponCodes?.length) {
+        const coupons = stores.coupons;
+        const redemption = redeemCoupons(coupons, cart.couponCodes, cart.customerId, now);
+        if (!redemption.ok) {
+            rollBack();
+            return { ok: false, failed: "coupons", issues: redemption.issues };
+        }
+        release.push(() => releaseCoupons(coupons, redemption.redemptionIds));
+    }
+
+    if (stores.loyalty) {
+        const settled = settleLoyalty(stores.loyalty, cart, result, commit, now);
+        if (!settled.ok) {
+            rollBack();
+            return { ok: false, failed: "loyalty", issues: settled.issues };
+        }
+        return { ok: true, result: settled.result };
+    }
+    return { ok: true, result };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'bun:test';
+import { compareScenarios } from './compare';
+import { ComparisonRequestSchema, toValidationIssues, type SampleCart } from './schema';
+
+const carts: SampleCart[] = [
+    { items: [{ name: 'Jacket', price: 1000, category: 'Clothing', quantity: 1 }] }
+];
+
+describe('compareScenarios', () => {
+    it('should run every campaign on its own and all of them combined', () => {
+        const { carts: [comparison] } = compareScenarios(carts, [{
+            name: 'Launch',
+            discounts: [
+                { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40 },
+                { category: 'Coupon', type: 'Percentage', percentage: 10 }
+            ]
+        }]);
+
+        expect(comparison?.cart).toBe('Cart 1');
+        expect(comparison?.scenarios[0]?.campaigns).toEqual(['Seasonal (40.00 THB per 300.00 THB)', 'Percentage Coupon (10%)']);
+        // Combined, the coupon runs first: 1000 -> 900, then 3 × 40 -> 780
+        expect(comparison?.scenarios[0]?.runs).toEqual([
+            { label: '#1 alone', campaignIndexes: [0], originalTotal: 1000, totalDiscount: 120, finalTotal: 880, campaignDiscounts: [120, 0] },
+            { label: '#2 alone', campaignIndexes: [1], originalTotal: 1000, totalDiscount: 100, finalTotal: 900, campaignDiscounts: [0, 100] },
+            { label: 'All combined', campaignIndexes: [0, 1], originalTotal: 1000, totalDiscount: 220, finalTotal: 780, campaignDiscounts: [120, 100] }
+        ]);
+    });
+
+    it('should skip the solo run for single-campaign scenarios and keep a baseline without campaigns', () => {
+        const { carts: [comparison] } = compareScenarios(carts, [
+            { discounts: [] },
+            { name: 'Flat', discounts: [{ category: 'Coupon', type: 'Fixed', amount: 150 }] }
+        ], { rounding: 'cash' });
+
+        expect(comparison?.scenarios.map(scenario => scenario.scenario)).toEqual(['Scenario 1', 'Flat']);
+        expect(comparison?.scenarios.map(scenario => scenario.runs.map(run => [run.label, run.finalTotal]))).toEqual([
+            [['No campaigns', 1000]],
+            [['All combined', 850]]
+        ]);
+    });
+
+    it('should reject scenarios whose combined campaigns break the stacking policy', () => {
+        const parsed = ComparisonRequestSchema.safeParse({
+            carts,
+            scenarios: [{
+                discounts: [
+                    { category: 'Coupon', type: 'Percentage', percentage: 10 },
+                    { category: 'Coupon', type: 'Fixed', amount: 100 }
+                ]
+            }]
+        });
+
+        expect(parsed.error && toValidationIssues(parsed.error)).toEqual([
+            { path: 'scenarios.0.discounts.1', message: 'At most one Coupon campaign allowed: Fixed Amount Coupon (100.00 THB) is one too many' }
+        ]);
+    });
+});
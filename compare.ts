@@ -0,0 +1,55 @@
+import { describeCampaign } from "./campaigns";
+import { calculateDiscount } from "./discount";
+import { DEFAULT_CURRENCY } from "./money";
+import { stageOrder } from "./policy";
+import type { CalculationOptions, CartComparison, ComparisonResult, DiscountCampaign, SampleCart, Scenario, ScenarioComparison, ScenarioRun } from "./schema";
+
+/**
+ * Calculates every sample cart with every scenario's campaigns: each campaign
+ * on its own, then all of them combined, so the effect of a campaign can be
+ * told apart from how it stacks with the others.
+ */
+export function compareScenarios(carts: SampleCart[], scenarios: Scenario[], options: CalculationOptions = {}): ComparisonResult {
+    return {
+        carts: carts.map((cart, cartIndex): CartComparison => {
+            const currency = cart.currency ?? DEFAULT_CURRENCY;
+            return {
+                cart: cart.name ?? `Cart ${cartIndex + 1}`,
+                currency,
+                scenarios: scenarios.map((scenario, scenarioIndex): ScenarioComparison => ({
+                    scenario: scenario.name ?? `Scenario ${scenarioIndex + 1}`,
+                    campaigns: scenario.discounts.map(campaign => describeCampaign(campaign, currency)),
+                    runs: planRuns(scenario.discounts).map(run => runScenario(cart, scenario.discounts, run.label, run.campaignIndexes, { ...options, currency, shipping: cart.shipping }))
+                }))
+            };
+        })
+    };
+}
+
+// A single campaign needs no separate run next to the combined one
+function planRuns(campaigns: DiscountCampaign[]): { label: string; campaignIndexes: number[] }[] {
+    const combined = { label: campaigns.length === 0 ? "No campaigns" : "All combined", campaignIndexes: campaigns.map((_, index) => index) };
+    if (campaigns.length <= 1) {
+        return [combined];
+    }
+    return [...campaigns.map((_, index) => ({ label: `#${index + 1} alone`, campaignIndexes: [index] })), combined];
+}
+
+function runScenario(cart: SampleCart, campaigns: DiscountCampaign[], label: string, campaignIndexes: number[], options: CalculationOptions): ScenarioRun {
+    const result = calculateDiscount(cart.items, campaignIndexes.map(index => campaigns[index]!), options);
+
+    // appliedCampaigns follow the stage order, so map them back to the scenario's positions
+    const campaignDiscounts = campaigns.map(() => 0);
+    stageOrder(campaignIndexes.map(index => campaigns[index]!)).forEach((position, applied) => {
+        campaignDiscounts[campaignIndexes[position]!] = result.appliedCampaigns[applied]?.discountAmount ?? 0;
+    });
+
+    return {
+        label,
+        campaignIndexes,
+        originalTotal: result.originalTotal,
+        totalDiscount: result.totalDiscount,
+        finalTotal: result.finalTotal,
+        campaignDiscounts
+    };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'bun:test';
+import { applyCoupons, checkCoupons, CouponSchema, openCouponRegistry, redeemCoupons, saveCoupons } from './coupons';
+import type { Cart } from './schema';
+
+function registry() {
+    const db = openCouponRegistry(':memory:');
+    saveCoupons(db, [
+        CouponSchema.parse({ code: 'welcome100', campaign: { category: 'Coupon', type: 'Fixed', amount: 100 }, maxRedemptionsPerCustomer: 1 }),
+        CouponSchema.parse({ code: 'FLASH', campaign: { category: 'Coupon', type: 'Percentage', percentage: 10 }, maxRedemptions: 2 }),
+        CouponSchema.parse({
+            code: 'SUMMER',
+            campaign: { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40 },
+            startsAt: '2026-06-01T00:00:00Z',
+            expiresAt: '2026-09-01T00:00:00Z'
+        })
+    ]);
+    return db;
+}
+
+const july = new Date('2026-07-15T12:00:00Z');
+
+describe('Coupon registry', () => {
+    it('should resolve codes case-insensitively into their campaigns', () => {
+        const cart: Cart = {
+            items: [{ name: 'Watch', price: 1000, category: 'Accessories', quantity: 1 }],
+            discounts: [],
+            couponCodes: ['Welcome100', 'summer'],
+            customerId: 'c-1'
+        };
+
+        const resolved = applyCoupons(registry(), cart, july);
+
+        expect(resolved.ok && resolved.cart.discounts).toEqual([
+            { category: 'Coupon', type: 'Fixed', amount: 100 },
+            { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40 }
+        ]);
+    });
+
+    it('should report unknown, expired and not yet valid codes', () => {
+        const db = registry();
+
+        expect(checkCoupons(db, ['NOPE'], undefined, july)).toMatchObject({ ok: false, issues: [{ code: 'UNKNOWN_COUPON', path: 'couponCodes.0' }] });
+        expect(checkCoupons(db, ['SUMMER'], undefined, new Date('2026-09-01T00:00:00Z'))).toMatchObject({ ok: false, issues: [{ code: 'EXPIRED' }] });
+        expect(checkCoupons(db, ['SUMMER'], undefined, new Date('2026-05-31T23:59:59Z'))).toMatchObject({ ok: false, issues: [{ code: 'NOT_STARTED' }] });
+    });
+
+    it('should stop redemptions at the total limit', () => {
+        const db = registry();
+
+        expect(redeemCoupons(db, ['FLASH'], 'c-1', july).ok).toBe(true);
+        expect(redeemCoupons(db, ['FLASH'], 'c-2', july).ok).toBe(true);
+        expect(redeemCoupons(db, ['FLASH'], 'c-3', july)).toMatchObject({ ok: false, issues: [{ code: 'EXHAUSTED' }] });
+    });
+
+    it('should enforce per-customer limits', () => {
+        const db = registry();
+
+        expect(checkCoupons(db, ['WELCOME100'], undefined, july)).toMatchObject({ ok: false, issues: [{ code: 'CUSTOMER_REQUIRED' }] });
+        expect(redeemCoupons(db, ['WELCOME100'], 'c-1', july).ok).toBe(true);
+        expect(redeemCoupons(db, ['WELCOME100'], 'c-1', july)).toMatchObject({ ok: false, issues: [{ code: 'CUSTOMER_LIMIT_REACHED' }] });
+        expect(redeemCoupons(db, ['WELCOME100'], 'c-2', july).ok).toBe(true);
+    });
+
+    it('should redeem nothing when one of the codes fails', () => {
+        const db = registry();
+
+        expect(redeemCoupons(db, ['FLASH', 'NOPE'], 'c-1', july).ok).toBe(false);
+        expect(redeemCoupons(db, ['FLASH'], 'c-1', july).ok).toBe(true);
+        expect(redeemCoupons(db, ['FLASH'], 'c-2', july).ok).toBe(true);
+    });
+
+    it('should report coupons in a currency without an exchange rate', () => {
+        const db = registry();
+        saveCoupons(db, [CouponSchema.parse({ code: 'USD5', campaign: { category: 'Coupon', type: 'Fixed', amount: 5, currency: 'USD' } })]);
+        const cart: Cart = { items: [{ name: 'Watch', price: 1000, category: 'Accessories', quantity: 1 }], discounts: [], couponCodes: ['USD5'] };
+
+        expect(applyCoupons(db, cart, july)).toMatchObject({
+            ok: false,
+            issues: [{ code: 'EXCHANGE_RATE', path: 'couponCodes.0', message: 'No exchange rate from USD to THB' }]
+        });
+    });
+
+    it('should require a registry for carts with coupon codes', () => {
+        const cart: Cart = { items: [{ name: 'Watch', price: 1000, category: 'Accessories', quantity: 1 }], discounts: [], couponCodes: ['FLASH'] };
+
+        expect(applyCoupons(undefined, cart)).toMatchObject({ ok: false, issues: [{ code: 'NO_REGISTRY' }] });
+        expect(applyCoupons(undefined, { ...cart, couponCodes: undefined })).toEqual({ ok: true, cart: { ...cart, couponCodes: undefined } });
+    });
+});
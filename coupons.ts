@@ -0,0 +1,278 @@
+import type { Database } from "bun:sqlite";
+import { z } from "zod/v4";
+import { budgetCurrency, DiscountCampaignSchema, hasBudget } from "./campaigns";
+import { exchangeRate } from "./currency";
+import { openDatabase } from "./database";
+import { DEFAULT_CURRENCY } from "./money";
+import { checkStackingPolicy } from "./policy";
+import type { Cart, DiscountCampaign } from "./schema";
+
+// An issued coupon code and the campaign it unlocks
+export const CouponSchema = z.object({
+    code: z.string().trim().min(1, "Coupon code is required").transform(normalizeCode),
+    campaign: DiscountCampaignSchema,
+    // ISO 8601 timestamps; valid from startsAt (inclusive) until expiresAt (exclusive)
+    startsAt: z.iso.datetime({ offset: true }).optional(),
+    expiresAt: z.iso.datetime({ offset: true }).optional(),
+    // Redemptions across all customers
+    maxRedemptions: z.number().int().min(1, "Maximum redemptions must be at least 1").optional(),
+    maxRedemptionsPerCustomer: z.number().int().min(1, "Maximum redemptions per customer must be at least 1").optional()
+});
+
+export const CouponImportSchema = z.object({
+    coupons: z.array(CouponSchema).min(1, "At least one coupon is required")
+});
+
+export const CouponErrorCode = z.enum([
+    "NO_REGISTRY",
+    "UNKNOWN_COUPON",
+    "NOT_STARTED",
+    "EXPIRED",
+    "EXHAUSTED",
+    "CUSTOMER_REQUIRED",
+    "CUSTOMER_LIMIT_REACHED",
+    "EXCHANGE_RATE",
+    "STACKING_POLICY"
+]);
+
+export type Coupon = z.infer<typeof CouponSchema>;
+export type CouponErrorCode = z.infer<typeof CouponErrorCode>;
+
+export interface CouponIssue {
+    code: CouponErrorCode;
+    // Where the code sits in the cart, e.g. couponCodes.0
+    path: string;
+    message: string;
+}
+
+export type CouponResolution = { ok: true; campaigns: DiscountCampaign[] } | { ok: false; issues: CouponIssue[] };
+
+export type CouponRedemption = { ok: true; campaigns: DiscountCampaign[]; redemptionIds: number[] } | { ok: false; issues: CouponIssue[] };
+
+interface CouponRow {
+    code: string;
+    campaign: string;
+    starts_at: string | null;
+    expires_at: string | null;
+    max_redemptions: number | null;
+    max_redemptions_per_customer: number | null;
+}
+
+// Codes are matched case-insensitively
+export function normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+export function openCouponRegistry(path: string): Database {
+    const db = openDatabase(path);
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS coupons (
+            code TEXT PRIMARY KEY,
+            campaign TEXT NOT NULL,
+            starts_at TEXT,
+            expires_at TEXT,
+            max_redemptions INTEGER,
+            max_redemptions_per_customer INTEGER
+        );
+        CREATE TABLE IF NOT EXISTS coupon_redemptions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            code TEXT NOT NULL REFERENCES coupons(code),
+            customer_id TEXT,
+            redeemed_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS coupon_redemptions_code ON coupon_redemptions(code, customer_id);
+    `);
+    return db;
+}
+
+// Adds coupons or replaces their definition; past redemptions are kept
+export function saveCoupons(db: Database, coupons: Coupon[]): void {
+    const upsert = db.prepare(`
+        INSERT INTO coupons (code, campaign, starts_at, expires_at, max_redemptions, max_redemptions_per_customer)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (code) DO UPDATE SET
+            campaign = excluded.campaign,
+            starts_at = excluded.starts_at,
+            expires_at = excluded.expires_at,
+            max_redemptions = excluded.max_redemptions,
+            max_redemptions_per_customer = excluded.max_redemptions_per_customer
+    `);
+    db.transaction(() => {
+        for (const coupon of coupons) {
+            upsert.run(
+                coupon.code,
+                JSON.stringify(coupon.campaign),
+                coupon.startsAt ?? null,
+                coupon.expiresAt ?? null,
+                coupon.maxRedemptions ?? null,
+                coupon.maxRedemptionsPerCustomer ?? null
+            );
+        }
+    })();
+}
+
+export function findCoupon(db: Database, code: string): Coupon | undefined {
+    const row = db.query<CouponRow, [string]>("SELECT * FROM coupons WHERE code = ?").get(normalizeCode(code));
+    if (!row) return undefined;
+    return {
+        code: row.code,
+        campaign: DiscountCampaignSchema.parse(JSON.parse(row.campaign)),
+        startsAt: row.starts_at ?? undefined,
+        expiresAt: row.expires_at ?? undefined,
+        maxRedemptions: row.max_redemptions ?? undefined,
+        maxRedemptionsPerCustomer: row.max_redemptions_per_customer ?? undefined
+    };
+}
+
+/**
+ * Looks up every code and checks its validity window and redemption limits
+ * without redeeming anything. Returns the campaigns the codes unlock, or
+ * one issue per code that cannot be used.
+ */
+export function checkCoupons(db: Database, codes: string[], customerId?: string, now: Date = new Date()): CouponResolution {
+    const campaigns: DiscountCampaign[] = [];
+    const issues: CouponIssue[] = [];
+
+    codes.forEach((code, index) => {
+        const path = `couponCodes.${index}`;
+        const coupon = findCoupon(db, code);
+        const problem = coupon ? findCouponProblem(db, coupon, customerId, now) : { code: "UNKNOWN_COUPON" as const, message: `Unknown coupon code: ${code}` };
+        if (problem) {
+            issues.push({ ...problem, path });
+        } else {
+            campaigns.push(coupon!.campaign);
+        }
+    });
+
+    return issues.length > 0 ? { ok: false, issues } : { ok: true, campaigns };
+}
+
+/**
+ * Records one redemption per code. The limits are checked again inside an
+ * immediate transaction, so concurrent checkouts cannot redeem a coupon past
+ * its limit; either every code is redeemed or none is. The ids of the
+ * redemptions are returned so releaseCoupons can undo them.
+ */
+export function redeemCoupons(db: Database, codes: string[], customerId?: string, now: Date = new Date()): CouponRedemption {
+    const insert = db.prepare("INSERT INTO coupon_redemptions (code, customer_id, redeemed_at) VALUES (?, ?, ?)");
+    return db.transaction((): CouponRedemption => {
+        const resolution = checkCoupons(db, codes, customerId, now);
+        if (!resolution.ok) {
+            return resolution;
+        }
+        const redemptionIds = codes.map(code => Number(insert.run(normalizeCode(code), customerId ?? null, now.toISOString()).lastInsertRowid));
+        return { ...resolution, redemptionIds };
+    }).immediate();
+}
+
+// Takes back redemptions of an order that was not placed after all
+export function releaseCoupons(db: Database, redemptionIds: number[]): void {
+    const remove = db.prepare("DELETE FROM coupon_redemptions WHERE id = ?");
+    db.transaction(() => redemptionIds.forEach(id => remove.run(id))).immediate();
+}
+
+/**
+ * Resolves the cart's coupon codes into campaigns added to its discounts.
+ * The unlocked campaigns have to fit the stacking policy next to the cart's
+ * own and, in another currency, have a rate to the cart's. Carts without
+ * codes pass through unchanged, even without a registry.
+ */
+export function applyCoupons(db: Database | undefined, cart: Cart, now: Date = new Date()): { ok: true; cart: Cart } | { ok: false; issues: CouponIssue[] } {
+    const codes = cart.couponCodes ?? [];
+    if (codes.length === 0) {
+        return { ok: true, cart };
+    }
+    if (!db) {
+        return { ok: false, issues: [{ code: "NO_REGISTRY", path: "couponCodes", message: "Cart references coupon codes but no coupon registry is configured" }] };
+    }
+
+    const resolution = checkCoupons(db, codes, cart.customerId, now);
+    if (!resolution.ok) {
+        return resolution;
+    }
+    const rateIssues = exchangeRateIssues(resolution.campaigns, cart);
+    if (rateIssues.length > 0) {
+        return { ok: false, issues: rateIssues };
+    }
+
+    // The cart's own campaigns already passed validation, so violations point at the codes
+    const discounts = [...cart.discounts, ...resolution.campaigns];
+    const violations = checkStackingPolicy(discounts, cart.currency);
+    if (violations.length > 0) {
+        return {
+            ok: false,
+            issues: violations.map(({ index, message }) => ({ code: "STACKING_POLICY" as const, path: `couponCodes.${index - cart.discounts.length}`, message }))
+        };
+    }
+    return { ok: true, cart: { ...cart, discounts } };
+}
+
+/**
+ * Resolves the coupon codes of an order that was already placed, as a
+ * refund needs them. The order redeemed the codes, so only their campaigns
+ * are looked up: a coupon that has expired or run out since still gave its
+ * discount, and only unknown codes fail.
+ */
+export function applyRedeemedCoupons(db: Database | undefined, cart: Cart): { ok: true; cart: Cart } | { ok: false; issues: CouponIssue[] } {
+    const codes = cart.couponCodes ?? [];
+    if (codes.length === 0) {
+        return { ok: true, cart };
+    }
+    if (!db) {
+        return { ok: false, issues: [{ code: "NO_REGISTRY", path: "couponCodes", message: "Cart references coupon codes but no coupon registry is configured" }] };
+    }
+
+    const coupons = codes.map(code => findCoupon(db, code));
+    const issues: CouponIssue[] = codes.flatMap((code, index) => coupons[index]
+        ? []
+        : [{ code: "UNKNOWN_COUPON" as const, path: `couponCodes.${index}`, message: `Unknown coupon code: ${code}` }]);
+    if (issues.length > 0) {
+        return { ok: false, issues };
+    }
+    const campaigns = coupons.map(coupon => coupon!.campaign);
+    const rateIssues = exchangeRateIssues(campaigns, cart);
+    if (rateIssues.length > 0) {
+        return { ok: false, issues: rateIssues };
+    }
+    return { ok: true, cart: { ...cart, discounts: [...cart.discounts, ...campaigns] } };
+}
+
+// Coupons in another currency than the cart need a rate from the exchange rate table
+function exchangeRateIssues(campaigns: DiscountCampaign[], cart: Cart): CouponIssue[] {
+    const currency = cart.currency ?? DEFAULT_CURRENCY;
+    return campaigns.flatMap((campaign, index) => {
+        // Budgeted coupons without a currency of their own still spend a THB budget
+        const from = campaign.currency ?? (hasBudget(campaign) ? budgetCurrency(campaign) : currency);
+        return exchangeRate(from, currency) === undefined
+            ? [{ code: "EXCHANGE_RATE" as const, path: `couponCodes.${index}`, message: `No exchange rate from ${from} to ${currency}` }]
+            : [];
+    });
+}
+
+function findCouponProblem(db: Database, coupon: Coupon, customerId: string | undefined, now: Date): Omit<CouponIssue, "path"> | undefined {
+    if (coupon.startsAt && now < new Date(coupon.startsAt)) {
+        return { code: "NOT_STARTED", message: `Coupon ${coupon.code} is not valid before ${coupon.startsAt}` };
+    }
+    if (coupon.expiresAt && now >= new Date(coupon.expiresAt)) {
+        return { code: "EXPIRED", message: `Coupon ${coupon.code} expired at ${coupon.expiresAt}` };
+    }
+
+    if (coupon.maxRedemptions !== undefined) {
+        const { count } = db.query<{ count: number }, [string]>("SELECT COUNT(*) AS count FROM coupon_redemptions WHERE code = ?").get(coupon.code)!;
+        if (count >= coupon.maxRedemptions) {
+            return { code: "EXHAUSTED", message: `Coupon ${coupon.code} has reached its limit of ${coupon.maxRedemptions} redemptions` };
+        }
+    }
+
+    if (coupon.maxRedemptionsPerCustomer !== undefined) {
+        if (!customerId) {
+            return { code: "CUSTOMER_REQUIRED", message: `Coupon ${coupon.code} is limited per customer; the cart needs a customerId` };
+        }
+        const { count } = db.query<{ count: number }, [string, string]>("SELECT COUNT(*) AS count FROM coupon_redemptions WHERE code = ? AND customer_id = ?").get(coupon.code, customerId)!;
+        if (count >= coupon.maxRedemptionsPerCustomer) {
+            return { code: "CUSTOMER_LIMIT_REACHED", message: `Customer ${customerId} has already redeemed coupon ${coupon.code} ${count} time(s)` };
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, it, expect } from 'bun:test';
+import { convertAmount, exchangeRate, setExchangeRates } from './currency';
+import { calculateDiscount } from './discount';
+import { CartSchema, toValidationIssues } from './schema';
+
+describe('Exchange rates', () => {
+    beforeEach(() => setExchangeRates({ base: 'THB', rates: { USD: 0.025, JPY: 4 } }));
+    afterEach(() => setExchangeRates(undefined));
+
+    it('should convert from, to and across the base currency', () => {
+        expect(convertAmount(100, 'THB', 'USD')).toBe(2.5);
+        expect(convertAmount(5, 'USD', 'THB')).toBe(200);
+        expect(convertAmount(5, 'USD', 'JPY')).toBe(800);
+        expect(exchangeRate('EUR', 'THB')).toBeUndefined();
+        expect(() => convertAmount(1, 'EUR', 'THB')).toThrow('No exchange rate from EUR to THB');
+    });
+
+    it('should convert campaign amounts into the cart currency and round to whole yen', () => {
+        const result = calculateDiscount(
+            [{ name: 'Hat', price: 999, category: 'Accessories', quantity: 3 }],
+            [
+                { category: 'Coupon', type: 'Fixed', amount: 5, currency: 'USD' },
+                { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40, currency: 'THB' }
+            ],
+            { currency: 'JPY', trace: true }
+        );
+
+        expect(result.currency).toBe('JPY');
+        expect(result.appliedCampaigns.map(campaign => campaign.discountAmount)).toEqual([800, 160]);
+        expect(result.appliedCampaigns[0]?.description).toBe('Fixed Amount Coupon (5.00 USD)');
+        expect(result.trace?.[0]?.parameters).toMatchObject({ amount: 5, currency: 'USD', exchangeRate: 160 });
+        expect(result.itemAllocations[0]?.totalDiscount).toBe(960);
+        expect(result.finalTotal).toBe(2037);
+    });
+
+    it('should round percentage discounts to the minor unit of the cart currency', () => {
+        const result = calculateDiscount(
+            [{ name: 'Hat', price: 999, category: 'Accessories', quantity: 1 }],
+            [{ category: 'Coupon', type: 'Percentage', percentage: 10 }],
+            { currency: 'JPY' }
+        );
+
+        expect(result.totalDiscount).toBe(100);
+        expect(result.finalTotal).toBe(899);
+    });
+
+    it('should reject campaigns in a currency without an exchange rate', () => {
+        const parsed = CartSchema.safeParse({
+            currency: 'JPY',
+            items: [{ name: 'Hat', price: 999, category: 'Accessories' }],
+            discounts: [{ category: 'Coupon', type: 'Fixed', amount: 5, currency: 'EUR' }]
+        });
+
+        expect(parsed.success).toBe(false);
+        expect(parsed.error && toValidationIssues(parsed.error)).toEqual([
+            { path: 'discounts.0.currency', message: 'No exchange rate from EUR to JPY' }
+        ]);
+    });
+
+    it('should reject unknown currency codes', () => {
+        const parsed = CartSchema.safeParse({ currency: 'XYZ', items: [{ name: 'Hat', price: 1, category: 'Accessories' }], discounts: [] });
+
+        expect(parsed.error && toValidationIssues(parsed.error)[0]?.path).toBe('currency');
+    });
+});
@@ -0,0 +1,57 @@
+import { z } from 'zod/v4';
+
+const ISO_CURRENCIES = new Set(Intl.supportedValuesOf('currency'));
+
+// ISO 4217 code such as THB, USD or JPY
+export const CurrencyCode = z.string().superRefine((code, ctx) => {
+    if (!ISO_CURRENCIES.has(code)) {
+        ctx.addIssue({ code: 'custom', message: `Unknown currency: ${code} (expected an ISO 4217 code such as THB)` });
+    }
+});
+
+/**
+ * Local exchange rate table: how much of each currency one unit of the base
+ * currency buys, e.g. { "base": "THB", "rates": { "USD": 0.0275 } }. Rates
+ * between two non-base currencies are crossed through the base.
+ */
+export const ExchangeRateTableSchema = z.object({
+    base: CurrencyCode,
+    rates: z.record(CurrencyCode, z.number().positive('Exchange rate must be positive'))
+});
+
+export type CurrencyCode = z.infer<typeof CurrencyCode>;
+export type ExchangeRateTable = z.infer<typeof ExchangeRateTableSchema>;
+
+// No table by default: campaigns then have to be in the cart's currency
+let activeTable: ExchangeRateTable | undefined;
+
+// Replaces the table amounts are converted with; undefined removes it
+export function setExchangeRates(table: unknown | undefined): void {
+    activeTable = table === undefined ? undefined : ExchangeRateTableSchema.parse(table);
+}
+
+export async function loadExchangeRates(path: string): Promise<void> {
+    setExchangeRates(await Bun.file(path).json());
+}
+
+function rateOf(currency: string): number | undefined {
+    if (!activeTable) return undefined;
+    return currency === activeTable.base ? 1 : activeTable.rates[currency];
+}
+
+// Units of `to` one unit of `from` buys, or undefined without a rate for both
+export function exchangeRate(from: string, to: string): number | undefined {
+    if (from === to) return 1;
+    const fromRate = rateOf(from);
+    const toRate = rateOf(to);
+    return fromRate === undefined || toRate === undefined ? undefined : toRate / fromRate;
+}
+
+// Unrounded: callers round to the minor units of the target currency
+export function convertAmount(amount: number, from: string, to: string): number {
+    const rate = exchangeRate(from, to);
+    if (rate === undefined) {
+        throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+    return amount * rate;
+}
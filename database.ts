@@ -0,0 +1,15 @@
+import { Database } from "bun:sqlite";
+
+const BUSY_TIMEOUT_MS = 5000;
+
+/**
+ * Opens (or creates) a local SQLite database. WAL mode lets readers carry on
+ * while another process writes, and the busy timeout makes concurrent
+ * writers wait for each other instead of failing.
+ */
+export function openDatabase(path: string): Database {
+    const db = new Database(path, { create: true });
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    return db;
+}
@@ -375,6 +375,231 @@ describe('calculateDiscount', () => {
         });
     });
 
+    describe('Per-item allocation', () => {
+        const sumAllocations = (result: ReturnType<typeof calculateDiscount>) =>
+            Math.round(result.itemAllocations.reduce((sum, a) => sum + a.totalDiscount * 100, 0)) / 100;
+
+        it('should split a fixed coupon pro-rata across items', () => {
+            const items: CartItem[] = [
+                createCartItem({ name: 'T-Shirt', price: 300 }),
+                createCartItem({ name: 'Hat', price: 100, category: 'Accessories' })
+            ];
+            const campaigns: DiscountCampaign[] = [createFixedCoupon(40)];
+
+            const result = calculateDiscount(items, campaigns);
+
+            expect(result.itemAllocations.map(a => a.totalDiscount)).toEqual([30, 10]);
+            expect(result.itemAllocations.map(a => a.netTotal)).toEqual([270, 90]);
+        });
+
+        it('should allocate a category discount only to items in that category', () => {
+            const items: CartItem[] = [
+                createCartItem({ name: 'T-Shirt', price: 100, category: 'Clothing' }),
+                createCartItem({ name: 'Phone', price: 500, category: 'Electronics' })
+            ];
+            const campaigns: DiscountCampaign[] = [createCategoryDiscount('Clothing', 20)];
+
+            const result = calculateDiscount(items, campaigns);
+
+            expect(result.itemAllocations[0]?.discounts).toEqual([{ campaignIndex: 0, category: 'On Top', type: 'Percentage', discountAmount: 20 }]);
+            expect(result.itemAllocations[1]?.discounts).toEqual([]);
+        });
+
+        it('should add up exactly to the total discount after rounding', () => {
+            const items: CartItem[] = [
+                createCartItem({ name: 'A', price: 100 }),
+                createCartItem({ name: 'B', price: 100 }),
+                createCartItem({ name: 'C', price: 100 })
+            ];
+            const campaigns: DiscountCampaign[] = [createFixedCoupon(100)];
+
+            const result = calculateDiscount(items, campaigns);
+
+            expect(result.itemAllocations.map(a => a.totalDiscount)).toEqual([33.34, 33.33, 33.33]);
+            expect(sumAllocations(result)).toBe(result.totalDiscount);
+        });
+
+        it('should keep allocations consistent across multiple campaigns', () => {
+            const items: CartItem[] = [
+                createCartItem({ name: 'T-Shirt', price: 350, category: 'Clothing' }),
+                createCartItem({ name: 'Pants', price: 490, category: 'Clothing', quantity: 2 }),
+                createCartItem({ name: 'Watch', price: 850, category: 'Accessories' })
+            ];
+            const campaigns: DiscountCampaign[] = [
+                createPercentageCoupon(7),
+                createPointsDiscount(333),
+                createSeasonalDiscount(300, 17)
+            ];
+
+            const result = calculateDiscount(items, campaigns);
+
+            expect(sumAllocations(result)).toBe(result.totalDiscount);
+            result.itemAllocations.forEach(allocation => {
+                expect(allocation.netTotal).toBeGreaterThanOrEqual(0);
+                expect(Math.round((allocation.lineTotal - allocation.totalDiscount) * 100) / 100).toBe(allocation.netTotal);
+            });
+        });
+
+        it('should not allocate more than the cart total when a coupon exceeds it', () => {
+            const items: CartItem[] = [createCartItem({ price: 100 })];
+            const campaigns: DiscountCampaign[] = [createFixedCoupon(150)];
+
+            const result = calculateDiscount(items, campaigns);
+
+            expect(result.itemAllocations[0]?.totalDiscount).toBe(100);
+            expect(result.itemAllocations[0]?.netTotal).toBe(0);
+        });
+
+        it('should not discount a line below zero when a later campaign targets fewer lines', () => {
+            const items: CartItem[] = [
+                createCartItem({ name: 'Shirt', price: 100, category: 'Clothing' }),
+                createCartItem({ name: 'Hat', price: 100, category: 'Accessories' })
+            ];
+            const campaigns: DiscountCampaign[] = [
+                createFixedCoupon(90),
+                { category: 'On Top', type: 'Percentage', targetCategory: 'Clothing', percentage: 100 }
+            ];
+
+            const result = calculateDiscount(items, campaigns);
+
+            // The shirt only has 55 left after its share of the coupon
+            expect(result.appliedCampaigns.map(campaign => campaign.discountAmount)).toEqual([90, 55]);
+            expect(result.itemAllocations.map(allocation => allocation.netTotal)).toEqual([0, 55]);
+            result.itemAllocations.forEach(allocation => expect(allocation.netTotal).toBeGreaterThanOrEqual(0));
+            expect(sumAllocations(result)).toBe(result.totalDiscount);
+        });
+    });
+
+    describe('Rounding policies', () => {
+        it('should round every campaign amount so they add up to the total discount', () => {
+            const items: CartItem[] = [createCartItem({ price: 99.99 })];
+            const campaigns: DiscountCampaign[] = [
+                createPercentageCoupon(12.5),
+                createPointsDiscount(100)
+            ];
+
+            const result = calculateDiscount(items, campaigns);
+
+            // 12.5% of 99.99 = 12.49875 -> 12.50; 20% of 87.49 = 17.498 -> 17.50
+            expect(result.appliedCampaigns.map(c => c.discountAmount)).toEqual([12.5, 17.5]);
+            expect(result.totalDiscount).toBe(30);
+            expect(result.finalTotal).toBe(69.99);
+        });
+
+        it('should apply the floor policy to each campaign', () => {
+            const items: CartItem[] = [createCartItem({ price: 99.99 })];
+            const campaigns: DiscountCampaign[] = [createPercentageCoupon(12.5)];
+
+            const result = calculateDiscount(items, campaigns, { rounding: 'floor' });
+
+            expect(result.totalDiscount).toBe(12.49);
+            expect(result.finalTotal).toBe(87.5);
+        });
+
+        it('should apply banker\'s rounding on exact halves', () => {
+            const items: CartItem[] = [createCartItem({ price: 0.25 })];
+            const campaigns: DiscountCampaign[] = [createPercentageCoupon(10)];
+
+            // 10% of 25 satang = 2.5 satang
+            expect(calculateDiscount(items, campaigns, { rounding: 'half-even' }).totalDiscount).toBe(0.02);
+            expect(calculateDiscount(items, campaigns, { rounding: 'half-up' }).totalDiscount).toBe(0.03);
+        });
+
+        it('should round the payable total to 0.25 THB with the cash policy', () => {
+            const items: CartItem[] = [createCartItem({ price: 100 })];
+            const campaigns: DiscountCampaign[] = [createPercentageCoupon(10.1)];
+
+            const result = calculateDiscount(items, campaigns, { rounding: 'cash' });
+
+            // 100 - 10.10 = 89.90 -> 90.00
+            expect(result.totalDiscount).toBe(10.1);
+            expect(result.roundingAdjustment).toBe(0.1);
+            expect(result.finalTotal).toBe(90);
+        });
+    });
+
+    describe('Explain trace', () => {
+        it('should only include a trace when asked for', () => {
+            const items: CartItem[] = [createCartItem({ price: 1000 })];
+
+            expect(calculateDiscount(items, [createFixedCoupon(50)]).trace).toBeUndefined();
+            expect(calculateDiscount(items, [createFixedCoupon(50)], { trace: true }).trace).toHaveLength(1);
+        });
+
+        it('should show the running total, formula and parameters of every stage', () => {
+            const items: CartItem[] = [createCartItem({ price: 1000 })];
+            const campaigns: DiscountCampaign[] = [createSeasonalDiscount(300, 40), createPercentageCoupon(10)];
+
+            const { trace } = calculateDiscount(items, campaigns, { trace: true });
+
+            expect(trace).toEqual([
+                expect.objectContaining({
+                    category: 'Coupon',
+                    totalBefore: 1000,
+                    formula: 'running total × percentage / 100',
+                    parameters: { runningTotal: 1000, percentage: 10 },
+                    discountAmount: 100,
+                    totalAfter: 900
+                }),
+                expect.objectContaining({
+                    category: 'Seasonal',
+                    totalBefore: 900,
+                    formula: 'floor(running total / everyXThb) × discountYThb',
+                    parameters: { runningTotal: 900, everyXThb: 300, discountYThb: 40, multiples: 3 },
+                    discountAmount: 120,
+                    totalAfter: 780
+                })
+            ]);
+        });
+
+        it('should show when the points cap is hit', () => {
+            const items: CartItem[] = [createCartItem({ price: 500 })];
+
+            const [step] = calculateDiscount(items, [createPointsDiscount(300)], { trace: true }).trace!;
+
+            expect(step?.parameters).toMatchObject({ pointsValue: 300, capPercentage: 20, cap: 100, capHit: true });
+            expect(step?.discountAmount).toBe(100);
+        });
+
+        it('should show caps applied after the formula', () => {
+            const items: CartItem[] = [createCartItem({ price: 100 })];
+            const campaigns: DiscountCampaign[] = [
+                { category: 'Coupon', type: 'Percentage', percentage: 50, conditions: { maxDiscount: 20 } },
+                { category: 'On Top', type: 'Percentage', targetCategory: 'Clothing', percentage: 100 }
+            ];
+
+            const trace = calculateDiscount(items, campaigns, { trace: true }).trace!;
+
+            expect(trace[0]).toMatchObject({ calculatedAmount: 50, cappedBy: 'maxDiscount', discountAmount: 20 });
+            expect(trace[1]).toMatchObject({ calculatedAmount: 100, cappedBy: 'runningTotal', discountAmount: 80 });
+        });
+
+        it('should show when the targeted items have less left than the running total', () => {
+            const items: CartItem[] = [
+                createCartItem({ name: 'Shirt', price: 100, category: 'Clothing' }),
+                createCartItem({ name: 'Hat', price: 100, category: 'Accessories' })
+            ];
+            const campaigns: DiscountCampaign[] = [
+                createFixedCoupon(90),
+                { category: 'On Top', type: 'Percentage', targetCategory: 'Clothing', percentage: 100 }
+            ];
+
+            const trace = calculateDiscount(items, campaigns, { trace: true }).trace!;
+
+            expect(trace[1]).toMatchObject({ totalBefore: 110, calculatedAmount: 100, cappedBy: 'targetedLines', discountAmount: 55 });
+        });
+
+        it('should explain why a campaign was skipped', () => {
+            const items: CartItem[] = [createCartItem({ price: 100 })];
+            const campaigns: DiscountCampaign[] = [{ category: 'Coupon', type: 'Fixed', amount: 10, conditions: { minSubtotal: 500 } }];
+
+            const [step] = calculateDiscount(items, campaigns, { trace: true }).trace!;
+
+            expect(step).toMatchObject({ applied: false, totalBefore: 100, discountAmount: 0, totalAfter: 100 });
+            expect(step?.reason).toContain('below the minimum');
+        });
+    });
+
     describe('Real-world scenarios', () => {
         test('Black Friday sale scenario', () => {
             const items: CartItem[] = [
@@ -1,119 +1,258 @@
-import { CampaignCategory, type CartItem, type CategoryDiscountCampaign, type DiscountCampaign, type DiscountResult, type FixedAmountCampaign, type PercentageCouponCampaign, type PointsDiscountCampaign, type SeasonalCampaign } from "./schema";
-
-const POINTS_CAP_PERCENTAGE = 0.2; // 20%
-const POINTS_TO_THB_RATIO = 1;
-
-export function calculateDiscount(cartItems: CartItem[], campaigns: DiscountCampaign[]): DiscountResult {
-    const originalTotal = calculateOriginalTotal(cartItems);
-    let currentTotal = originalTotal;
-    const appliedCampaigns: { category: CampaignCategory; discountAmount: number; }[] = [];
-    const campaignsByCategory = categorizeCampaigns(campaigns);
-
-    // Apply campaigns in order: Coupon > On Top > Seasonal
-    // 1. Apply Coupon campaigns (only one allowed - validated by Zod)
-    const couponDiscount = applyCouponCampaign(currentTotal, campaignsByCategory.coupon);
-    currentTotal -= couponDiscount;
-    appliedCampaigns.push({
-        category: "Coupon",
-        discountAmount: couponDiscount
-    });
+import { apportion, distributeDiscount } from "./allocation";
+import { capDiscount, findBudgetExhaustion, findUnmetCondition, getCampaignHandler, remainingBudget, type CampaignHandler } from "./campaigns";
+import { DEFAULT_CURRENCY, fromMinorUnits, roundPayable, toMinorUnits } from "./money";
+import { assertStackingPolicy, campaignStage, stageOrder } from "./policy";
+import { calculateShippingFee, type ShippingFee } from "./shipping";
+import { calculateTax } from "./tax";
+import { ShippingSchema, TaxConfigSchema, type AppliedCampaign, type CalculationOptions, type CartItem, type DiscountCampaign, type DiscountResult, type ItemAllocation, type TraceStep } from "./schema";
 
-    // 2. Apply On Top campaigns
-    const onTopDiscount = applyOnTopCampaign(currentTotal, cartItems, campaignsByCategory.onTop);
-    currentTotal -= onTopDiscount;
-    appliedCampaigns.push({
-        category: "On Top",
-        discountAmount: onTopDiscount
-    });
+/**
+ * All amounts are handled internally as integer minor units of the cart's
+ * currency (satang for THB, yen for JPY). Each campaign's discount is rounded
+ * to whole minor units with the chosen policy as soon as it is computed,
+ * before it is taken off the running total, so the per-campaign amounts
+ * always add up to totalDiscount. With the cash policy the payable total is
+ * finally rounded to the smallest coin (0.25 THB) and the difference is
+ * reported as roundingAdjustment. With a tax configuration VAT is worked out on the
+ * discounted line prices (see calculateTax). Campaigns with a budget give at
+ * most what is left of it after the usage in the budgets option, and are
+ * marked exhausted once it runs out. The shipping fee is settled once every
+ * item campaign has run, so item campaigns never see it; shipping campaigns
+ * run last and only discount the fee. With the trace option every
+ * campaign also records the running total before and after it (the fee left,
+ * for shipping campaigns), and the formula and parameters it used.
+ */
+export function calculateDiscount(cartItems: CartItem[], campaigns: DiscountCampaign[], options: CalculationOptions = {}): DiscountResult {
+    const rounding = options.rounding ?? "half-up";
+    const currency = options.currency ?? DEFAULT_CURRENCY;
+    const amount = (units: number) => fromMinorUnits(units, currency);
+    const itemsTotal = calculateOriginalTotal(cartItems, currency);
+    let currentTotal = itemsTotal;
+    const appliedCampaigns: AppliedCampaign[] = [];
 
-    // 3. Apply Seasonal campaigns
-    const seasonalDiscount = applySeasonalCampaign(currentTotal, campaignsByCategory.seasonal);
-    currentTotal -= seasonalDiscount;
-    appliedCampaigns.push({
-        category: "Seasonal",
-        discountAmount: seasonalDiscount
-    });
+    // Free shipping over a threshold looks at the items after their campaigns, so the fee is settled after them
+    const shipping = options.shipping && ShippingSchema.parse(options.shipping);
+    let shippingFee: ShippingFee | undefined;
+    let shippingLeft = 0;
+    const settleShipping = () => {
+        if (shipping && !shippingFee) {
+            shippingFee = calculateShippingFee(shipping, cartItems, currentTotal, currency, rounding);
+            shippingLeft = shippingFee.fee;
+        }
+    };
+
+    // Running net price of every line, used to split each discount pro-rata
+    const lineTotals = cartItems.map(item => calculateLineTotal(item, currency));
+    const itemNets = [...lineTotals];
+    const itemShares: number[][] = [];
+    const trace: TraceStep[] = [];
 
+    // Apply campaigns stage by stage: Coupon > On Top > Seasonal > Shipping unless the stacking policy reorders them
+    for (const { campaign, handler, stage } of orderCampaigns(campaigns, currency)) {
+        const onShipping = campaign.category === "Shipping";
+        if (onShipping) settleShipping();
+        const context = {
+            items: cartItems,
+            currency,
+            lineTotals,
+            itemNets: [...itemNets],
+            currentTotal,
+            shippingFee: shippingLeft,
+            rounding
+        };
+        const runningTotal = onShipping ? shippingLeft : currentTotal;
 
-    currentTotal = Math.max(0, currentTotal); // Ensure final total is not negative
+        const description = handler.describe(campaign, currency);
+        const usage = campaign.id === undefined ? undefined : options.budgets?.[campaign.id];
+
+        // Campaigns whose conditions are not met or whose budget is spent are reported instead of silently giving 0
+        const exhaustion = findBudgetExhaustion(campaign, usage, context);
+        const unmetCondition = findUnmetCondition(campaign, context) ?? exhaustion;
+        if (unmetCondition) {
+            itemShares.push(cartItems.map(() => 0));
+            appliedCampaigns.push({
+                category: campaign.category,
+                type: campaign.type,
+                description,
+                discountAmount: 0,
+                applied: false,
+                reason: unmetCondition,
+                ...(campaign.id && { id: campaign.id }),
+                ...(exhaustion && { exhausted: true })
+            });
+            trace.push({
+                category: campaign.category,
+                type: campaign.type,
+                description,
+                stage,
+                totalBefore: amount(runningTotal),
+                applied: false,
+                reason: unmetCondition,
+                discountAmount: 0,
+                totalAfter: amount(runningTotal)
+            });
+            continue;
+        }
+
+        const outcome = handler.apply(campaign, context);
+        const cappedAmount = capDiscount(outcome.discount, campaign, context);
+        const totalLimited = Math.min(cappedAmount, runningTotal); // Never discount below zero
+        // Nor more than the lines the campaign targets have left
+        const limitedAmount = onShipping ? totalLimited : Math.min(totalLimited, targetedNet(outcome.weights, itemNets));
+        const budgetLeft = remainingBudget(campaign, usage, context);
+        const discountAmount = budgetLeft === undefined ? limitedAmount : Math.min(limitedAmount, budgetLeft);
+        // The last of the budget or the last redemption went to this order
+        const exhausted = discountAmount > 0 && (discountAmount === budgetLeft
+            || (campaign.maxRedemptions !== undefined && (usage?.redemptions ?? 0) + 1 >= campaign.maxRedemptions));
+        // Shipping discounts are not shared across the items
+        const shares = onShipping ? cartItems.map(() => 0) : apportion(discountAmount, distributeDiscount(discountAmount, outcome.weights, itemNets));
+        shares.forEach((share, index) => itemNets[index] = (itemNets[index] ?? 0) - share);
+        itemShares.push(shares);
+        if (onShipping) {
+            shippingLeft -= discountAmount;
+        } else {
+            currentTotal -= discountAmount;
+        }
+
+        appliedCampaigns.push({
+            category: campaign.category,
+            type: campaign.type,
+            description,
+            discountAmount: amount(discountAmount),
+            applied: true,
+            ...(campaign.id && { id: campaign.id }),
+            ...(exhausted && { exhausted }),
+            ...(outcome.pointValue && {
+                // Whole points, rounded up so the points cover the discount
+                pointsRedeemed: Math.ceil(discountAmount / outcome.pointValue - 1e-9)
+            }),
+            ...(outcome.units && {
+                units: outcome.units.map(units => ({
+                    name: cartItems[units.item]?.name ?? "",
+                    quantity: units.quantity,
+                    discountAmount: amount(units.discount)
+                }))
+            })
+        });
+        trace.push({
+            category: campaign.category,
+            type: campaign.type,
+            description,
+            stage,
+            totalBefore: amount(runningTotal),
+            applied: true,
+            formula: outcome.explanation.formula,
+            parameters: outcome.explanation.parameters,
+            calculatedAmount: amount(outcome.discount),
+            ...(discountAmount < outcome.discount && {
+                cappedBy: discountAmount < limitedAmount ? "budget" as const
+                    : discountAmount < totalLimited ? "targetedLines" as const
+                    : discountAmount < cappedAmount ? "runningTotal" as const
+                    : "maxDiscount" as const
+            }),
+            discountAmount: amount(discountAmount),
+            totalAfter: amount(onShipping ? shippingLeft : currentTotal)
+        });
+    }
+
+    settleShipping();
+    const originalTotal = itemsTotal + (shippingFee?.fee ?? 0);
+    const totalDiscount = originalTotal - currentTotal - shippingLeft;
+    const taxConfig = options.tax && TaxConfigSchema.parse(options.tax);
+    const tax = taxConfig && calculateTax(cartItems, itemNets, taxConfig, rounding);
+    // With tax-exclusive prices the customer also pays the VAT; shipping is outside VAT
+    const payable = (tax ? tax.grossAmount : currentTotal) + shippingLeft;
+    const finalTotal = roundPayable(payable, rounding, currency);
 
     const result: DiscountResult = {
-        originalTotal,
-        finalTotal: Math.round(currentTotal * 100) / 100, // Round to 2 decimal places
-        totalDiscount: Math.round((originalTotal - currentTotal) * 100) / 100,
-        appliedCampaigns
+        currency,
+        originalTotal: amount(originalTotal),
+        finalTotal: amount(finalTotal),
+        totalDiscount: amount(totalDiscount),
+        roundingAdjustment: amount(finalTotal - payable),
+        appliedCampaigns,
+        itemAllocations: allocateToItems(cartItems, lineTotals, appliedCampaigns, itemShares, currency),
+        ...(taxConfig && tax && {
+            tax: {
+                rate: taxConfig.rate,
+                pricesIncludeTax: taxConfig.pricesIncludeTax,
+                exemptCategories: taxConfig.exemptCategories,
+                taxableAmount: amount(tax.taxableAmount),
+                exemptAmount: amount(tax.exemptAmount),
+                netAmount: amount(tax.taxableAmount + tax.exemptAmount),
+                vatAmount: amount(tax.vatAmount),
+                grossAmount: amount(tax.grossAmount)
+            }
+        }),
+        ...(shipping && shippingFee && {
+            shipping: {
+                method: shipping.method,
+                baseFee: amount(shippingFee.baseFee),
+                freeOverThreshold: shippingFee.freeOverThreshold,
+                fee: amount(shippingFee.fee),
+                discount: amount(shippingFee.fee - shippingLeft),
+                total: amount(shippingLeft)
+            }
+        }),
+        ...(options.trace && { trace })
     };
 
     return result
 }
 
-function calculateOriginalTotal(cartItems: CartItem[]): number {
-    return cartItems.reduce((total, item) => {
-        const quantity = item.quantity || 1;
-        return total + (item.price * quantity);
-    }, 0);
+// What the lines with a weight can still absorb, so no line is discounted below zero
+function targetedNet(weights: number[], itemNets: number[]): number {
+    return weights.reduce((sum, weight, index) => weight > 0 ? sum + Math.max(0, itemNets[index] ?? 0) : sum, 0);
 }
 
-function categorizeCampaigns(campaigns: DiscountCampaign[]) {
-    let coupon: FixedAmountCampaign | PercentageCouponCampaign | undefined;
-    let onTop: CategoryDiscountCampaign | PointsDiscountCampaign | undefined;
-    let seasonal: SeasonalCampaign | undefined;
-    for (const c of campaigns) {
-        switch (c.category) {
-            case "Coupon":
-                if (coupon) {
-                    throw Error("Can only use one Coupon")
-                }
-                coupon = c
-                break;
-            case "On Top":
-                if (onTop) {
-                    throw Error("Can only use one On-top discount")
-                }
-                onTop = c
-                break;
-            case "Seasonal":
-                if (seasonal) {
-                    throw Error("Can only use one Seasonal discount")
-                }
-                seasonal = c
-                break;
-        }
-    }
-    return {
-        coupon,
-        onTop,
-        seasonal
-    };
+/**
+ * Pairs every campaign with its registered handler, sorted by stage. The
+ * stacking policy is checked first and may override the stage of a category.
+ */
+function orderCampaigns(campaigns: DiscountCampaign[], currency: string): { campaign: DiscountCampaign; handler: CampaignHandler; stage: number }[] {
+    assertStackingPolicy(campaigns, currency);
+    return stageOrder(campaigns).map(index => {
+        const campaign = campaigns[index]!;
+        return { campaign, handler: getCampaignHandler(campaign), stage: campaignStage(campaign) };
+    });
 }
 
-function applyCouponCampaign(currentTotal: number, campaign?: FixedAmountCampaign | PercentageCouponCampaign): number {
-    if (campaign?.type === 'Fixed') {
-        return campaign.amount;
-    } else if (campaign?.type === 'Percentage') {
-        const discountAmount = (currentTotal * campaign.percentage) / 100;
-        return discountAmount;
-    } else {
-        return 0;
-    }
+function allocateToItems(
+    cartItems: CartItem[],
+    lineTotals: number[],
+    appliedCampaigns: AppliedCampaign[],
+    itemShares: number[][],
+    currency: string
+): ItemAllocation[] {
+    return cartItems.map((item, itemIndex) => {
+        const discounts = appliedCampaigns
+            .map((campaign, campaignIndex) => ({
+                campaignIndex,
+                category: campaign.category,
+                type: campaign.type,
+                discountAmount: fromMinorUnits(itemShares[campaignIndex]?.[itemIndex] ?? 0, currency)
+            }))
+            .filter(discount => discount.discountAmount > 0);
+        const lineTotal = lineTotals[itemIndex] ?? 0;
+        const discount = itemShares.reduce((sum, shares) => sum + (shares[itemIndex] ?? 0), 0);
+
+        return {
+            name: item.name,
+            category: item.category,
+            quantity: item.quantity || 1,
+            lineTotal: fromMinorUnits(lineTotal, currency),
+            discounts,
+            totalDiscount: fromMinorUnits(discount, currency),
+            netTotal: fromMinorUnits(lineTotal - discount, currency)
+        };
+    });
 }
 
-function applyOnTopCampaign(currentTotal: number, cartItems: CartItem[], campaign?: CategoryDiscountCampaign | PointsDiscountCampaign) {
-    if (campaign?.type === 'Fixed') {
-        return Math.min(campaign.customerPoints * POINTS_TO_THB_RATIO, currentTotal * POINTS_CAP_PERCENTAGE);
-    } else if (campaign?.type === 'Percentage') {
-        const categoryTotal = calculateOriginalTotal(cartItems.filter(_ => _.category == campaign.targetCategory))
-        const discountAmount = (categoryTotal * campaign.percentage) / 100;
-        return discountAmount;
-    } else {
-        return 0;
-    }
+function calculateOriginalTotal(cartItems: CartItem[], currency: string): number {
+    return cartItems.reduce((total, item) => total + calculateLineTotal(item, currency), 0);
 }
 
-function applySeasonalCampaign(currentTotal: number, campaign?: SeasonalCampaign): number {
-    if (campaign) {
-        return Math.floor(currentTotal / campaign.everyXThb) * campaign.discountYThb
-    } else {
-        return 0;
-    }
-}
\ No newline at end of file
+function calculateLineTotal(item: CartItem, currency: string): number {
+    const quantity = item.quantity || 1;
+    return toMinorUnits(item.price, currency) * quantity;
+}
@@ -1,98 +1,448 @@
-import { CartSchema, type DiscountResult, type Cart } from "./schema"
+import { CampaignCategory, CartSchema, ComparisonRequestSchema, OptimizationRequestSchema, RefundRequestSchema, RoundingPolicy, TaxConfigSchema, toValidationIssues, type Cart, type CalculationOptions, type ComparisonResult, type OptimizationResult, type RefundResult, type BatchSummary } from "./schema"
 import { calculateDiscount } from "./discount"
+import { findBestCombination } from "./optimizer"
+import { compareScenarios } from "./compare"
+import { lintCart, type LintReport } from "./lint"
+import { createSession, runInteractive } from "./interactive"
+import { buildDiscountReport, openOrderHistory, recordOrder, renderReportCsv, ReportRangeSchema, type DiscountReport } from "./orders"
+import { readBatchInputs, resolveBatchTarget, runBatch, type BatchOptions } from "./batch"
+import { calculateRefund } from "./refund"
+import { campaignHandlers, POINTS_CAP_PERCENTAGE } from "./campaigns"
+import { getCategoryCatalog, loadCategoryCatalog, type CategoryNode } from "./categories"
+import { loadProductCatalog } from "./products"
+import { loadExchangeRates } from "./currency"
+import { categoryLimit, loadStackingPolicy } from "./policy"
+import { applyCoupons, applyRedeemedCoupons, CouponImportSchema, openCouponRegistry, saveCoupons, type CouponIssue } from "./coupons"
+import { getBudgetUsage, openBudgetStore, type BudgetIssue } from "./budgets"
+import { applyLoyalty, applyRedeemedPoints, adjustPoints, LoyaltyImportSchema, openLoyaltyLedger, saveLoyaltyPrograms, type LoyaltyIssue } from "./loyalty"
+import { placeOrder } from "./checkout"
+import type { Database } from "bun:sqlite"
+import { formatCurrency } from "./money"
+import { ReceiptFormat, renderReceipt, renderText } from "./renderers"
 import { existsSync } from "fs"
-import { ZodError } from "zod";
+import { ZodError, type z } from "zod";
 
 interface CLIError extends Error {
     code?: string;
 }
 
-function formatCurrency(amount: number): string {
-    return `${amount.toLocaleString('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} THB`
+interface ParsedArgs {
+    positionals: string[];
+    flags: Map<string, string | true>;
 }
 
-function formatBill(cart: Cart, result: DiscountResult): void {
-    const items = cart.items
-    const discounts = cart.discounts
+// Flags that consume the argument following them as their value
+const VALUE_FLAGS = new Set(["--rounding", "--vat", "--vat-exempt", "--format", "--output", "--categories", "--products", "--rates", "--policy", "--coupon-db", "--loyalty-db", "--budget-db", "--orders-db", "--from", "--to"])
+
+function parseArgs(args: string[]): ParsedArgs {
+    const positionals: string[] = []
+    const flags = new Map<string, string | true>()
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!
+        if (!arg.startsWith("-") || arg === "-") {
+            positionals.push(arg)
+        } else if (VALUE_FLAGS.has(arg)) {
+            const value = args[++i]
+            if (value === undefined) {
+                const error: CLIError = new Error(`Missing value for ${arg}`)
+                error.code = "INVALID_OPTION"
+                throw error
+            }
+            flags.set(arg, value)
+        } else {
+            flags.set(arg, true)
+        }
+    }
 
-    // Header
-    console.log()
-    console.log(" ".repeat(28) + "RECEIPT SUMMARY" + " ".repeat(29))
-    console.log("─".repeat(80))
+    return { positionals, flags }
+}
 
-    // Items section
-    console.log(" ITEMS" + " ".repeat(72) + "")
-    console.log("─".repeat(80))
+function parseCalculationOptions(flags: Map<string, string | true>): CalculationOptions {
+    const options: CalculationOptions = {}
+    const rounding = flags.get("--rounding")
+    if (typeof rounding === "string") {
+        const parsed = RoundingPolicy.safeParse(rounding)
+        if (!parsed.success) {
+            const error: CLIError = new Error(`Invalid rounding policy: ${rounding} (expected ${RoundingPolicy.options.join(", ")})`)
+            error.code = "INVALID_OPTION"
+            throw error
+        }
+        options.rounding = parsed.data
+    }
 
-    items.forEach((item, index) => {
-        const quantity = item.quantity || 1
-        const itemTotal = item.price * quantity
-        const itemLine = `${index + 1}. ${item.name} (${item.category})`
-        const priceLine = `${formatCurrency(item.price)} × ${quantity} = ${formatCurrency(itemTotal)}`
+    const vat = flags.get("--vat")
+    if (typeof vat === "string") {
+        const exempt = flags.get("--vat-exempt")
+        const parsed = TaxConfigSchema.safeParse({
+            rate: Number(vat),
+            pricesIncludeTax: !flags.has("--vat-exclusive"),
+            exemptCategories: typeof exempt === "string" ? exempt.split(",").map(category => category.trim()) : []
+        })
+        if (!parsed.success) {
+            const issues = toValidationIssues(parsed.error).map(issue => `${issue.path}: ${issue.message}`)
+            const error: CLIError = new Error(`Invalid VAT options (${issues.join("; ")})`)
+            error.code = "INVALID_OPTION"
+            throw error
+        }
+        options.tax = parsed.data
+    }
 
-        console.log(` ${itemLine.padEnd(36)} ${priceLine.padStart(40)} `)
+    if (flags.has("--explain")) {
+        options.trace = true
+    }
+    return options
+}
+
+// Loads the --categories and --products catalogs, the --rates table and the --policy before anything is validated against them
+async function loadCatalogs(flags: Map<string, string | true>): Promise<void> {
+    await loadCatalog(flags.get("--categories"), "Category catalog", loadCategoryCatalog)
+    await loadCatalog(flags.get("--products"), "Product catalog", loadProductCatalog)
+    await loadCatalog(flags.get("--rates"), "Exchange rate table", loadExchangeRates)
+    await loadCatalog(flags.get("--policy"), "Stacking policy", loadStackingPolicy)
+}
+
+async function loadCatalog(path: string | true | undefined, label: string, load: (path: string) => Promise<unknown>): Promise<void> {
+    if (typeof path !== "string") {
+        return
+    }
+
+    if (!existsSync(path)) {
+        const error: CLIError = new Error(`${label} not found: ${path}`)
+        error.code = "FILE_NOT_FOUND"
+        throw error
+    }
+
+    try {
+        await load(path)
+    } catch (cause) {
+        const details = cause instanceof ZodError
+            ? toValidationIssues(cause).map(issue => `${issue.path}: ${issue.message}`).join("; ")
+            : (cause as Error).message
+        const error: CLIError = new Error(`Invalid ${label.toLowerCase()} (${details})`)
+        error.code = "INVALID_OPTION"
+        throw error
+    }
+}
+
+function openRegistry(flags: Map<string, string | true>): Database | undefined {
+    const path = flags.get("--coupon-db")
+    return typeof path === "string" ? openCouponRegistry(path) : undefined
+}
+
+function openLedger(flags: Map<string, string | true>): Database | undefined {
+    const path = flags.get("--loyalty-db")
+    return typeof path === "string" ? openLoyaltyLedger(path) : undefined
+}
+
+function openBudgets(flags: Map<string, string | true>): Database | undefined {
+    const path = flags.get("--budget-db")
+    return typeof path === "string" ? openBudgetStore(path) : undefined
+}
+
+function openOrders(flags: Map<string, string | true>): Database | undefined {
+    const path = flags.get("--orders-db")
+    return typeof path === "string" ? openOrderHistory(path) : undefined
+}
+
+function couponError(issues: CouponIssue[]): CLIError {
+    printIssues("Coupon", issues)
+    const error: CLIError = new Error("Coupon codes could not be applied")
+    error.code = "COUPON_ERROR"
+    return error
+}
+
+function loyaltyError(issues: LoyaltyIssue[]): CLIError {
+    printIssues("Loyalty", issues)
+    const error: CLIError = new Error("Loyalty points could not be applied")
+    error.code = "LOYALTY_ERROR"
+    return error
+}
+
+function budgetError(issues: BudgetIssue[]): CLIError {
+    printIssues("Budget", issues)
+    const error: CLIError = new Error("Campaign budgets could not be spent")
+    error.code = "BUDGET_ERROR"
+    return error
+}
+
+function printIssues(kind: string, issues: (CouponIssue | LoyaltyIssue | BudgetIssue)[]): void {
+    console.error(`❌ ${kind} errors found:`)
+    issues.forEach(issue => {
+        console.error(`   • ${issue.path}: ${issue.message} (${issue.code})`)
     })
+}
 
-    console.log("─".repeat(80))
-    console.log(` SUBTOTAL${" ".repeat(44)}${formatCurrency(result.originalTotal).padStart(24)} `)
-
-    // Discounts section (only show if there are discounts)
-    if (discounts.length > 0 && result.totalDiscount > 0) {
-        console.log("─".repeat(80))
-        console.log(" DISCOUNTS APPLIED" + " ".repeat(60) + "")
-        console.log("─".repeat(80))
-
-        // Show campaign details
-        discounts.forEach((campaign, index) => {
-            let campaignDesc = ""
-            switch (campaign.category) {
-                case 'Coupon':
-                    if (campaign.type === 'Fixed') {
-                        campaignDesc = `Fixed Amount Coupon (${formatCurrency(campaign.amount)})`
-                    } else if (campaign.type === 'Percentage') {
-                        campaignDesc = `Percentage Coupon (${campaign.percentage}%)`
-                    }
-                    break
-                case 'On Top':
-                    if (campaign.type === 'Percentage') {
-                        campaignDesc = `Category Discount (${campaign.targetCategory} ${campaign.percentage}%)`
-                    } else if (campaign.type === 'Fixed') {
-                        campaignDesc = `Points Discount (${campaign.customerPoints} points)`
-                    }
-                    break
-                case 'Seasonal':
-                    if (campaign.type === 'Special') {
-                        campaignDesc = `Seasonal (${formatCurrency(campaign.discountYThb)} per ${formatCurrency(campaign.everyXThb)})`
-                    }
-                    break
-            }
+function requireStore(db: Database | undefined, mode: string, flag: string): Database {
+    if (!db) {
+        const error: CLIError = new Error(`${mode} needs ${flag} <file>`)
+        error.code = "INVALID_OPTION"
+        throw error
+    }
+    return db
+}
 
-            const appliedCampaign = result.appliedCampaigns.find(c => c.category === campaign.category)
-            const discountAmount = appliedCampaign ? appliedCampaign.discountAmount : 0
+function parseFormat(flags: Map<string, string | true>): ReceiptFormat {
+    const format = flags.get("--format")
+    if (typeof format !== "string") {
+        return "text"
+    }
+    const parsed = ReceiptFormat.safeParse(format)
+    if (!parsed.success) {
+        const error: CLIError = new Error(`Invalid output format: ${format} (expected ${ReceiptFormat.options.join(", ")})`)
+        error.code = "INVALID_OPTION"
+        throw error
+    }
+    return parsed.data
+}
 
-            if (discountAmount > 0) {
-                console.log(` ${(index + 1) + ". " + campaignDesc.padEnd(50)} ${formatCurrency(discountAmount).padStart(24)} `)
-            } else {
-                console.log(` ${(index + 1) + ". " + campaignDesc.padEnd(50)} ${("No discount").padStart(24)} `)
-            }
+// Optimization and refund results have no receipt layout, only text and JSON
+function assertTextOrJson(format: ReceiptFormat, mode: string): void {
+    if (format !== "text" && format !== "json") {
+        const error: CLIError = new Error(`${mode} supports --format text or json, not ${format}`)
+        error.code = "INVALID_OPTION"
+        throw error
+    }
+}
+
+// Help section listing the category catalog as a tree
+function formatCategories(nodes: CategoryNode[] = getCategoryCatalog().config.categories, depth = 1): string {
+    return nodes.map(node => {
+        const line = `${"  ".repeat(depth)}• ${node.name}`
+        return node.children?.length ? `${line}\n${formatCategories(node.children, depth + 1)}` : line
+    }).join("\n")
+}
+
+// Help section listing every registered campaign type with an example
+function formatCampaignTypes(): string {
+    return CampaignCategory.options.map(category => {
+        const examples = campaignHandlers
+            .filter(handler => handler.category === category)
+            .map(handler => {
+                const fields = Object.entries(handler.example).map(([key, value]) => `"${key}": ${JSON.stringify(value)}`)
+                return `  • ${handler.name}: { ${fields.join(", ")} }`
+            })
+        return [`  ${category.toUpperCase()} (${formatCategoryLimit(category)}):`, ...examples].join("\n")
+    }).join("\n  \n")
+}
+
+// How many campaigns of the category the active stacking policy lets a cart combine
+function formatCategoryLimit(category: CampaignCategory): string {
+    const limit = categoryLimit(category)
+    return limit === 0 ? "Not allowed" : limit === 1 ? "Choose one" : `Choose up to ${limit}`
+}
+
+function formatCandidates(candidateIndexes: number[]): string {
+    return candidateIndexes.length > 0
+        ? "Candidates " + candidateIndexes.map(index => `#${index + 1}`).join(", ")
+        : "No campaigns"
+}
+
+function formatOptimization(items: Cart["items"], optimization: OptimizationResult): string {
+    const lines: string[] = []
+    const { best, alternatives } = optimization
+
+    lines.push("")
+    lines.push(" ".repeat(26) + "BEST CAMPAIGN COMBINATION" + " ".repeat(29))
+    lines.push("─".repeat(80))
+    lines.push(` ${formatCandidates(best.candidateIndexes).padEnd(52)}${`(${optimization.combinationsEvaluated} combinations evaluated)`.padStart(26)} `)
+
+    lines.push(renderText({ items, discounts: best.campaigns }, best.result))
+
+    lines.push(" RUNNER-UP COMBINATIONS" + " ".repeat(56) + "")
+    lines.push("─".repeat(80))
+
+    if (alternatives.length === 0) {
+        lines.push(" None")
+    }
+    alternatives.forEach((alternative, index) => {
+        const candidates = formatCandidates(alternative.candidateIndexes)
+        lines.push(` ${(index + 2) + ". " + candidates.padEnd(50)} ${formatCurrency(alternative.result.finalTotal, alternative.result.currency).padStart(24)} `)
+    })
+
+    lines.push("─".repeat(80))
+    return lines.join("\n")
+}
+
+// One table per cart and scenario with the runs side by side, then the scenarios' combined totals
+function formatComparison(comparison: ComparisonResult): string {
+    const lines: string[] = []
+    const column = 15
+
+    lines.push("")
+    lines.push(" ".repeat(29) + "CAMPAIGN COMPARISON" + " ".repeat(32))
+
+    comparison.carts.forEach(cart => {
+        const money = (amount: number) => formatCurrency(amount, cart.currency)
+        const originalTotal = cart.scenarios[0]?.runs[0]?.originalTotal ?? 0
+        const row = (label: string, cells: string[]) => ` ${label.padEnd(19)}${cells.map(cell => cell.padStart(column)).join("")}`
+
+        lines.push("═".repeat(80))
+        lines.push(` ${cart.cart.padEnd(52)}${money(originalTotal).padStart(26)} `)
+
+        cart.scenarios.forEach(scenario => {
+            lines.push("─".repeat(80))
+            lines.push(` ${scenario.scenario.toUpperCase()}`)
+            scenario.campaigns.forEach((description, index) => lines.push(`   #${index + 1} ${description}`))
+            lines.push("")
+            lines.push(row("", scenario.runs.map(run => run.label)))
+
+            scenario.campaigns.forEach((_, index) => {
+                lines.push(row(`#${index + 1}`, scenario.runs.map(run => run.campaignIndexes.includes(index) ? money(-run.campaignDiscounts[index]!) : "-")))
+            })
+            lines.push(row("Total discount", scenario.runs.map(run => money(run.totalDiscount))))
+            lines.push(row("Final total", scenario.runs.map(run => money(run.finalTotal))))
         })
 
-        console.log("─".repeat(80))
-        console.log(` TOTAL DISCOUNT${" ".repeat(38)}${formatCurrency(result.totalDiscount).padStart(24)} `)
+        lines.push("─".repeat(80))
+        lines.push(`${" SCENARIOS COMBINED".padEnd(48)}${"Total discount".padStart(16)}${"Final total".padStart(16)}`)
+        cart.scenarios.forEach((scenario, index) => {
+            const combined = scenario.runs[scenario.runs.length - 1]!
+            lines.push(` ${`${index + 1}. ${scenario.scenario}`.padEnd(47)}${money(combined.totalDiscount).padStart(16)}${money(combined.finalTotal).padStart(16)}`)
+        })
+    })
+
+    lines.push("═".repeat(80))
+    return lines.join("\n")
+}
+
+function formatLintReport(report: LintReport): string {
+    const lines = report.issues.map(issue => {
+        const icon = issue.severity === "error" ? "❌" : "⚠️ "
+        return `   ${icon} ${issue.path}: ${issue.message} (${issue.code})`
+    })
+    if (lines.length === 0) {
+        lines.push("   ✅ No problems found")
+    }
+    const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`
+    lines.push(`📋 ${count(report.errors, "error")}, ${count(report.warnings, "warning")}`)
+    return lines.join("\n")
+}
+
+const REPORT_SECTIONS = [
+    ["total", "ALL ORDERS"],
+    ["campaignCategory", "BY CAMPAIGN CATEGORY"],
+    ["campaignType", "BY CAMPAIGN TYPE"],
+    ["itemCategory", "BY ITEM CATEGORY"]
+] as const
+
+function formatReport(report: DiscountReport): string {
+    const lines: string[] = []
+    const { from, to } = report.range
+    const range = from || to ? `${from ?? "…"} to ${to ?? "…"}` : "All dates"
+
+    lines.push("")
+    lines.push(" ".repeat(31) + "DISCOUNT REPORT" + " ".repeat(34))
+    lines.push("─".repeat(80))
+    lines.push(` ${range}`)
+
+    for (const [dimension, title] of REPORT_SECTIONS) {
+        const rows = report.rows.filter(row => row.dimension === dimension)
+        lines.push("─".repeat(80))
+        lines.push(` ${title.padEnd(26)}${"Orders".padStart(7)}${"Gross".padStart(18)}${"Discount".padStart(18)}${"Rate".padStart(9)} `)
+        lines.push("─".repeat(80))
+        if (rows.length === 0) {
+            lines.push(" None")
+        }
+        rows.forEach(row => {
+            const key = row.key.length > 25 ? row.key.slice(0, 24) + "…" : row.key
+            lines.push(` ${key.padEnd(26)}${String(row.orders).padStart(7)}${formatCurrency(row.gross, row.currency).padStart(18)}${formatCurrency(row.totalDiscount, row.currency).padStart(18)}${`${row.averageDiscountRate.toFixed(2)}%`.padStart(9)} `)
+        })
     }
 
-    // Final total
-    console.log("─".repeat(80))
-    console.log(` FINAL PAYMENT${" ".repeat(38)}${formatCurrency(result.finalTotal).padStart(25)} `)
+    lines.push("─".repeat(80))
+    return lines.join("\n")
+}
+
+function formatRefund(refund: RefundResult): string {
+    const lines: string[] = []
+    const money = (amount: number) => formatCurrency(amount, refund.remainingResult.currency)
+
+    lines.push("")
+    lines.push(" ".repeat(30) + "REFUND SUMMARY" + " ".repeat(30))
+    lines.push("─".repeat(80))
+    lines.push(" RETURNED ITEMS" + " ".repeat(63) + "")
+    lines.push("─".repeat(80))
+
+    refund.returnedItems.forEach((item, index) => {
+        const itemLine = `${index + 1}. ${item.name} × ${item.quantity}`
+        const paidLine = `${money(item.grossAmount)}, paid ${money(item.paidAmount)}`
+        lines.push(` ${itemLine.padEnd(36)} ${paidLine.padStart(40)} `)
+    })
 
-    // Savings summary (if applicable)
-    if (result.totalDiscount > 0) {
-        const savingsPercent = (result.totalDiscount / result.originalTotal * 100).toFixed(1)
-        console.log("─".repeat(80))
-        console.log(` YOU SAVED ${savingsPercent}%${" ".repeat(38)}${formatCurrency(result.totalDiscount).padStart(25)} `)
+    lines.push("─".repeat(80))
+    lines.push(` PAID FOR RETURNED ITEMS${" ".repeat(29)}${money(refund.returnedPaidAmount).padStart(24)} `)
+    if (refund.shippingRefund) {
+        lines.push(` SHIPPING REFUNDED${" ".repeat(35)}${money(refund.shippingRefund).padStart(24)} `)
     }
 
-    console.log("─".repeat(80))
+    // Discounts the remaining order no longer qualifies for
+    if (refund.clawback !== 0) {
+        lines.push("─".repeat(80))
+        lines.push(" DISCOUNT CLAWBACK" + " ".repeat(60) + "")
+        lines.push("─".repeat(80))
+
+        refund.campaignAdjustments.filter(c => c.clawback !== 0).forEach((campaign, index) => {
+            lines.push(` ${(index + 1) + ". " + campaign.description.padEnd(50)} ${money(-campaign.clawback).padStart(24)} `)
+            lines.push(`    ${`Discount ${money(campaign.originalDiscount)} → ${money(campaign.remainingDiscount)} on the remaining order`}`)
+        })
+
+        lines.push("─".repeat(80))
+        lines.push(` TOTAL CLAWBACK${" ".repeat(38)}${money(-refund.clawback).padStart(24)} `)
+    }
+
+    lines.push("─".repeat(80))
+    lines.push(` REFUND AMOUNT${" ".repeat(38)}${money(refund.refundAmount).padStart(25)} `)
+    lines.push(` REMAINING ORDER TOTAL${" ".repeat(30)}${money(refund.remainingResult.finalTotal).padStart(25)} `)
+    lines.push("─".repeat(80))
+    return lines.join("\n")
+}
+
+function formatBatchSummary(summary: BatchSummary): string {
+    const lines = [
+        "📦 Batch summary",
+        `   Carts:          ${summary.carts}`,
+        `   Succeeded:      ${summary.succeeded}`,
+        `   Failed:         ${summary.failed}`
+    ]
+    for (const [currency, totals] of Object.entries(summary.totals)) {
+        lines.push(`   Total discount: ${formatCurrency(totals.totalDiscount, currency)}`)
+        for (const [category, amount] of Object.entries(totals.discountByCategory)) {
+            lines.push(`     ${(category + ":").padEnd(14)}${formatCurrency(amount, currency)}`)
+        }
+    }
+    return lines.join("\n")
+}
+
+/**
+ * Streams every cart in the targets through the calculator and writes one
+ * NDJSON record per cart. The summary goes to stderr so stdout stays NDJSON.
+ */
+async function runBatchMode(targets: string[], options: BatchOptions, output: string | undefined): Promise<void> {
+    if (targets.length === 0) {
+        const error: CLIError = new Error("No batch input provided")
+        error.code = "NO_FILE_PROVIDED"
+        throw error
+    }
+
+    const resolved = []
+    for (const target of targets) {
+        const matches = await resolveBatchTarget(target)
+        if (matches.length === 0) {
+            const error: CLIError = new Error(`No carts found for: ${target}`)
+            error.code = "FILE_NOT_FOUND"
+            throw error
+        }
+        resolved.push(...matches)
+    }
+
+    const sink = output ? Bun.file(output).writer() : Bun.stdout.writer()
+    const summary = await runBatch(readBatchInputs(resolved), record => {
+        sink.write(JSON.stringify(record) + "\n")
+    }, options)
+    await sink.end()
+
+    console.error(formatBatchSummary(summary))
 }
 
 function showHelp(): void {
@@ -102,14 +452,86 @@ function showHelp(): void {
 ╚════════════════════════════════════════════════════════════════════════════════╝
 
 USAGE:
-  bun run index.ts <input.json>
+  bun run index.ts <input.json> [--rounding <policy>] [--vat <rate>]
+  bun run index.ts --optimize <candidates.json> [--rounding <policy>]
+  bun run index.ts --refund <refund.json> [--rounding <policy>]
+  bun run index.ts --compare <scenarios.json> [--format json]
+  bun run index.ts --lint <input.json> [--format json]
+  bun run index.ts --interactive [input.json]
+  bun run index.ts --report --orders-db <orders.sqlite> [--from <date>] [--to <date>]
+  bun run index.ts <input.json> --coupon-db <coupons.sqlite> [--redeem]
+  bun run index.ts <input.json> --budget-db <budgets.sqlite> [--redeem]
+  bun run index.ts --import-coupons <coupons.json> --coupon-db <coupons.sqlite>
+  bun run index.ts --import-loyalty <loyalty.json> --loyalty-db <loyalty.sqlite>
+  bun run index.ts --batch <dir|file|glob|-> [...] [--output <file>]
   bun run index.ts --help
 
 ARGUMENTS:
   input.json    Path to JSON file containing cart items and discount campaigns
 
 OPTIONS:
-  --help, -h        Show this help message
+  --help, -h            Show this help message
+  --optimize            Treat the file as { "items", "candidates" } and pick the
+                        cheapest combination the stacking policy allows
+  --compare             Treat the file as { "carts", "scenarios" } and compare
+                        every scenario's campaigns on each cart: each campaign
+                        on its own and all of them combined
+  --interactive         Build the cart at a prompt: add and remove items, change
+                        quantities, attach and detach campaigns and save the
+                        cart; the receipt is recalculated after every change
+  --lint                Check the cart without calculating a receipt: lists
+                        every validation error plus warnings for campaigns that
+                        will give less than they seem to; exits non-zero only
+                        on errors
+  --refund              Treat the file as { "cart", "originalResult", "returns" }
+                        and calculate the refund for the returned items;
+                        coupons and points come from --coupon-db and
+                        --loyalty-db
+  --batch               Calculate many carts: directories (their .json and .ndjson
+                        files), .json files, .ndjson files, globs, or - for
+                        NDJSON on stdin. Writes one NDJSON record per cart and
+                        a summary to stderr
+  --rounding <policy>   Rounding policy: half-up (default), half-even, floor,
+                        or cash (payable total rounded to the smallest coin,
+                        0.25 THB)
+  --vat <rate>          Print a VAT summary at the given rate (e.g. 7)
+  --vat-exclusive       Prices exclude VAT; it is added on top
+  --vat-exempt <list>   Comma-separated VAT-exempt item categories
+  --explain             Show how every discount was derived: running totals,
+                        formulas, parameters and caps
+  --categories <file>   Load the item category catalog from a JSON file:
+                        { "categories": [{ "name", "children": [...] }] }
+                        Campaigns targeting a category also match its children
+  --products <file>     Load a product catalog (.json or .csv with sku, name, price,
+                        category) so items can be given as { "sku", "quantity" }
+  --rates <file>        Load exchange rates for campaigns in another currency
+                        than the cart: { "base": "THB", "rates": { "USD": 0.0275 } }
+  --policy <file>       Load a stacking policy: { "maxPerCategory", "stages",
+                        "exclusivityGroups": { "<group>": { "max", "excludes" } } }
+  --coupon-db <file>    Coupon registry (SQLite) that resolves the cart's
+                        "couponCodes" and tracks expiry and redemption limits
+  --loyalty-db <file>   Loyalty ledger (SQLite) for carts with "customerId" and
+                        "loyalty": { "program", "redeemPoints" }
+  --budget-db <file>    Budget store (SQLite) that tracks what campaigns with an
+                        "id" and a "budget" or "maxRedemptions" have given
+  --orders-db <file>    Order history (SQLite): every order placed with --redeem
+                        is recorded with its result
+  --report              Aggregate the --orders-db history: order counts, gross,
+                        total discount and average discount rate per campaign
+                        category, campaign type and item category; supports
+                        --format text, json and csv
+  --from <date>         First day of the --report, e.g. 2026-01-01 (UTC)
+  --to <date>           Last day of the --report, included
+  --redeem              Record the order: redeem the cart's coupon codes, burn
+                        and earn its loyalty points and spend campaign budgets
+  --import-coupons      Treat the file as { "coupons": [...] } and add or update
+                        them in the --coupon-db registry
+  --import-loyalty      Treat the file as { "programs", "adjustments" } and save
+                        them to the --loyalty-db ledger
+  --format <format>     Output format: text (default), json, csv, html or
+                        markdown; --optimize, --compare, --lint and --refund
+                        support text and json
+  --output <file>       Write the output to a file instead of stdout
 
 EXAMPLE JSON FORMAT:
 {
@@ -153,28 +575,25 @@ EXAMPLE JSON FORMAT:
     ]
 }
 
-SUPPORTED CATEGORIES:
-  • Clothing
-  • Accessories  
-  • Electronics
+SUPPORTED CATEGORIES (see --categories):
+${formatCategories()}
 
 DISCOUNT CAMPAIGN TYPES:
   
-  COUPON (Choose one):
-  • Fixed Amount: { "category": "Coupon", "type": "Fixed", "amount": 50 }
-  • Percentage: { "category": "Coupon", "type": "Percentage", "percentage": 10 }
-  
-  ON TOP (Choose one):
-  • Category Discount: { "category": "On Top", "type": "Percentage", "targetCategory": "Clothing", "percentage": 15 }
-  • Points Discount: { "category": "On Top", "type": "Fixed", "customerPoints": 68 }
-  
-  SEASONAL (Choose one):
-  • Special: { "category": "Seasonal", "type": "Special", "everyXThb": 300, "discountYThb": 40 }
+${formatCampaignTypes()}
 
 RULES:
-  • Only one campaign per category allowed
-  • Application order: Coupon → On Top → Seasonal
-  • Points discount capped at 20% of total
+  • Campaigns per category are limited as listed above; the --policy sets
+    the limits (one per category by default)
+  • Application order: Coupon → On Top → Seasonal → Shipping, unless the
+    --policy changes the stages; shipping campaigns always run last
+  • Campaigns tagged with a "group" follow the policy's exclusivity groups
+  • Points discount capped at the loyalty program's capPercentage of the
+    running total (${POINTS_CAP_PERCENTAGE * 100}% unless the program or campaign sets one)
+  • "shipping": { "method": "flat" | "weight" | "quantity", "freeOver" } adds
+    a fee that item campaigns, the seasonal base and the points cap leave out
+  • Any campaign can carry "conditions": minSubtotal, minItems, minUnits,
+    minCategorySpend { category, amount } and maxDiscount
   • Final total cannot be negative
 `)
 }
@@ -194,10 +613,14 @@ function validateFile(filepath: string): void {
 }
 
 async function loadAndValidateCart(filepath: string): Promise<Cart> {
+    return loadAndValidate(filepath, CartSchema)
+}
+
+async function loadAndValidate<T extends z.ZodType>(filepath: string, schema: T): Promise<z.output<T>> {
     try {
         const file = Bun.file(filepath)
         const jsonData = await file.json()
-        return CartSchema.parse(jsonData)
+        return schema.parse(jsonData)
     } catch (error) {
         if (error instanceof ZodError) {
             if (error.issues) {
@@ -205,9 +628,8 @@ async function loadAndValidateCart(filepath: string): Promise<Cart> {
                 validationError.code = "VALIDATION_ERROR"
 
                 console.error("❌ Validation errors found:")
-                error.issues.forEach((issue: any) => {
-                    const path = issue.path.length > 0 ? issue.path.join(".") : "root"
-                    console.error(`   • ${path}: ${issue.message}`)
+                toValidationIssues(error).forEach(issue => {
+                    console.error(`   • ${issue.path}: ${issue.message}`)
                 })
                 throw validationError
             }
@@ -235,6 +657,26 @@ function handleError(error: CLIError): void {
             console.error(`❌ Error: ${error.message}`)
             console.error("💡 Please check your JSON syntax")
             break
+        case "INVALID_OPTION":
+            console.error(`❌ Error: ${error.message}`)
+            console.error("💡 For help: bun run index.ts --help")
+            break
+        case "COUPON_ERROR":
+            console.error(`❌ Error: ${error.message}`)
+            console.error("💡 Check the coupon codes above, or remove them from the cart")
+            break
+        case "LOYALTY_ERROR":
+            console.error(`❌ Error: ${error.message}`)
+            console.error("💡 Check the customer's loyalty account and program")
+            break
+        case "BUDGET_ERROR":
+            console.error(`❌ Error: ${error.message}`)
+            console.error("💡 Another order used up the budget; calculate the cart again")
+            break
+        case "LINT_ERROR":
+            console.error(`❌ Error: ${error.message}`)
+            console.error("💡 Fix the errors above; warnings alone do not fail the lint")
+            break
         case "VALIDATION_ERROR":
             console.error(`❌ Error: ${error.message}`)
             console.error("💡 Please fix the data format issues above")
@@ -249,35 +691,208 @@ async function main(): Promise<void> {
     try {
         const args = process.argv.slice(2)
 
-        // Handle help
-        if (args.includes("--help") || args.includes("-h") || args.length === 0) {
+        const { positionals, flags } = parseArgs(args)
+        await loadCatalogs(flags)
+
+        // Handle help; it lists the catalogs and category limits loaded above
+        if (flags.has("--help") || flags.has("-h") || args.length === 0) {
             showHelp()
             return
         }
+        const options = parseCalculationOptions(flags)
+        const format = parseFormat(flags)
+        const output = flags.get("--output")
+
+        // Status lines would corrupt machine-readable output on stdout
+        const log = format === "text" || typeof output === "string" ? console.log : () => {}
+        const emit = async (content: string): Promise<void> => {
+            if (typeof output === "string") {
+                await Bun.write(output, content + "\n")
+                log(`📄 Output written to: ${output}`)
+            } else {
+                console.log(content)
+            }
+        }
+
+        if (flags.has("--report")) {
+            const history = requireStore(openOrders(flags), "--report", "--orders-db")
+            if (format !== "text" && format !== "json" && format !== "csv") {
+                const error: CLIError = new Error(`--report supports --format text, json or csv, not ${format}`)
+                error.code = "INVALID_OPTION"
+                throw error
+            }
+            const range = ReportRangeSchema.safeParse({ from: flags.get("--from"), to: flags.get("--to") })
+            if (!range.success) {
+                const issues = toValidationIssues(range.error).map(issue => `${issue.path}: ${issue.message}`)
+                const error: CLIError = new Error(`Invalid report range (${issues.join("; ")})`)
+                error.code = "INVALID_OPTION"
+                throw error
+            }
+
+            const report = buildDiscountReport(history, range.data)
+            await emit(format === "csv" ? renderReportCsv(report) : format === "json" ? JSON.stringify(report, null, 2) : formatReport(report))
+            return
+        }
+
+        if (flags.has("--batch")) {
+            await runBatchMode(positionals, { ...options, couponRegistry: openRegistry(flags), loyaltyLedger: openLedger(flags), budgetStore: openBudgets(flags) }, typeof output === "string" ? output : undefined)
+            return
+        }
+
+        // Starts from the given cart, or an empty one
+        if (flags.has("--interactive")) {
+            const start = positionals[0]
+            if (start) validateFile(start)
+            await runInteractive(createSession(start ? await loadAndValidateCart(start) : undefined, options))
+            return
+        }
 
         // Get file path
-        const filepath = args[0]
+        const filepath = positionals[0]
         if (!filepath) {
             const error: CLIError = new Error("No input file provided")
             error.code = "NO_FILE_PROVIDED"
             throw error
         }
 
-        console.log(`🔍 Loading cart data from: ${filepath}`)
+        log(`🔍 Loading cart data from: ${filepath}`)
 
         // Validate and load file
         validateFile(filepath)
-        const cart = await loadAndValidateCart(filepath)
 
-        console.log("✅ Cart data loaded and validated successfully\n")
+        if (flags.has("--import-coupons")) {
+            const registry = requireStore(openRegistry(flags), "--import-coupons", "--coupon-db")
+            const { coupons } = await loadAndValidate(filepath, CouponImportSchema)
+            saveCoupons(registry, coupons)
+            console.log(`✅ ${coupons.length} coupons saved to ${flags.get("--coupon-db")}`)
+            return
+        }
+
+        if (flags.has("--import-loyalty")) {
+            const ledger = requireStore(openLedger(flags), "--import-loyalty", "--loyalty-db")
+            const { programs, adjustments } = await loadAndValidate(filepath, LoyaltyImportSchema)
+            saveLoyaltyPrograms(ledger, programs)
+            adjustPoints(ledger, adjustments)
+            console.log(`✅ ${programs.length} programs and ${adjustments.length} point adjustments saved to ${flags.get("--loyalty-db")}`)
+            return
+        }
+
+        if (flags.has("--optimize")) {
+            assertTextOrJson(format, "--optimize")
+            const request = await loadAndValidate(filepath, OptimizationRequestSchema)
+            log(`✅ ${request.candidates.length} candidate campaigns loaded and validated successfully\n`)
+
+            const optimization = findBestCombination(request.items, request.candidates, { ...options, currency: request.currency, shipping: request.shipping })
+            await emit(format === "json" ? JSON.stringify(optimization, null, 2) : formatOptimization(request.items, optimization))
+
+            log("\n🎉 Optimization completed successfully!")
+            return
+        }
+
+        // Reports every problem at once; only errors make the exit code non-zero
+        if (flags.has("--lint")) {
+            assertTextOrJson(format, "--lint")
+            let data: unknown
+            try {
+                data = await Bun.file(filepath).json()
+            } catch {
+                const error: CLIError = new Error(`${filepath} is not valid JSON`)
+                error.code = "INVALID_JSON"
+                throw error
+            }
+
+            const report = lintCart(data, options)
+            await emit(format === "json" ? JSON.stringify(report, null, 2) : formatLintReport(report))
+            if (!report.valid) {
+                const error: CLIError = new Error(`Cart has ${report.errors} error${report.errors === 1 ? "" : "s"}`)
+                error.code = "LINT_ERROR"
+                throw error
+            }
+            return
+        }
+
+        if (flags.has("--compare")) {
+            assertTextOrJson(format, "--compare")
+            const request = await loadAndValidate(filepath, ComparisonRequestSchema)
+            log(`✅ ${request.carts.length} carts and ${request.scenarios.length} scenarios loaded and validated successfully\n`)
+
+            const comparison = compareScenarios(request.carts, request.scenarios, options)
+            await emit(format === "json" ? JSON.stringify(comparison, null, 2) : formatComparison(comparison))
+
+            log("\n🎉 Comparison completed successfully!")
+            return
+        }
+
+        if (flags.has("--refund")) {
+            assertTextOrJson(format, "--refund")
+            const request = await loadAndValidate(filepath, RefundRequestSchema)
+            log("✅ Refund request loaded and validated successfully\n")
+
+            // The order's coupons and points count towards the remainder as they did towards the order
+            const coupons = applyRedeemedCoupons(openRegistry(flags), request.cart)
+            if (!coupons.ok) {
+                throw couponError(coupons.issues)
+            }
+            const loyalty = applyRedeemedPoints(openLedger(flags), coupons.cart, request.originalResult)
+            if (!loyalty.ok) {
+                throw loyaltyError(loyalty.issues)
+            }
+
+            const refund = calculateRefund(loyalty.cart, request.returns, request.originalResult, options)
+            await emit(format === "json" ? JSON.stringify(refund, null, 2) : formatRefund(refund))
 
-        // Calculate discounts
-        const result = calculateDiscount(cart.items, cart.discounts)
+            log("\n🎉 Refund calculation completed successfully!")
+            return
+        }
+
+        const loadedCart = await loadAndValidateCart(filepath)
+
+        // Coupon codes and loyalty points are resolved and checked before anything is calculated
+        const registry = openRegistry(flags)
+        const coupons = applyCoupons(registry, loadedCart)
+        if (!coupons.ok) {
+            throw couponError(coupons.issues)
+        }
+        const ledger = openLedger(flags)
+        const loyalty = applyLoyalty(ledger, coupons.cart)
+        if (!loyalty.ok) {
+            throw loyaltyError(loyalty.issues)
+        }
+        const cart = loyalty.cart
+
+        log("✅ Cart data loaded and validated successfully\n")
+
+        // Calculate discounts; budgeted campaigns give at most what their budget has left
+        const budgetStore = openBudgets(flags)
+        const budgets = budgetStore && getBudgetUsage(budgetStore, cart)
+        let result = calculateDiscount(cart.items, cart.discounts, { ...options, currency: cart.currency, shipping: cart.shipping, budgets })
+        const commit = flags.has("--redeem")
+
+        // Without --redeem the points movement is only previewed; a failed step releases the earlier ones
+        const order = placeOrder({ budgets: budgetStore, coupons: registry, loyalty: ledger }, cart, result, commit)
+        if (!order.ok) {
+            switch (order.failed) {
+                case "budgets": throw budgetError(order.issues)
+                case "coupons": throw couponError(order.issues)
+                case "loyalty": throw loyaltyError(order.issues)
+            }
+        }
+        result = order.result
+        if (commit && registry && cart.couponCodes?.length) {
+            log(`🎟️  Redeemed coupons: ${cart.couponCodes.join(", ")}`)
+        }
+
+        // Only placed orders go into the history; a preview is calculated again when it is placed
+        const history = openOrders(flags)
+        if (history && commit) {
+            const orderId = recordOrder(history, cart, result)
+            log(`🗄️  Recorded as order #${orderId}`)
+        }
 
         // Display results
-        formatBill(cart, result)
+        await emit(renderReceipt(format, cart, result))
 
-        console.log("\n🎉 Discount calculation completed successfully!")
+        log("\n🎉 Discount calculation completed successfully!")
 
     } catch (error) {
         handleError(error as CLIError)
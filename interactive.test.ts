@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'bun:test';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createSession, executeCommand } from './interactive';
+
+describe('Interactive cart builder', () => {
+    it('should add items, change quantities and recalculate the receipt', async () => {
+        const session = createSession();
+
+        const added = await executeCommand(session, 'add "G Shirt" 350 Clothing 2');
+        expect(added.output).toContain('G Shirt (Clothing)');
+        expect(added.output).toContain('700.00 THB');
+
+        await executeCommand(session, 'add Watch 850 Accessories');
+        const changed = await executeCommand(session, 'qty 1 3');
+        expect(session.cart.items).toEqual([
+            { name: 'G Shirt', price: 350, category: 'Clothing', quantity: 3 },
+            { name: 'Watch', price: 850, category: 'Accessories' }
+        ]);
+        expect(changed.output).toContain('1,900.00 THB');
+
+        await executeCommand(session, 'remove 2');
+        expect(session.cart.items.map(item => item.name)).toEqual(['G Shirt']);
+    });
+
+    it('should attach and detach campaigns', async () => {
+        const session = createSession({ items: [{ name: 'Jacket', price: 1000, category: 'Clothing' }], discounts: [] });
+
+        const attached = await executeCommand(session, 'attach {"category": "Coupon", "type": "Percentage", "percentage": 10}');
+        expect(attached.output).toContain('Percentage Coupon (10%)');
+        expect(attached.output).toContain('900.00 THB');
+
+        await executeCommand(session, 'detach 1');
+        expect(session.cart.discounts).toEqual([]);
+    });
+
+    it('should reject invalid changes and keep the cart as it was', async () => {
+        const session = createSession({
+            items: [{ name: 'Jacket', price: 1000, category: 'Clothing' }],
+            discounts: [{ category: 'Coupon', type: 'Percentage', percentage: 10 }]
+        });
+        const before = structuredClone(session.cart);
+
+        expect((await executeCommand(session, 'add Watch abc Accessories')).output).toBe('❌ price: Invalid input: expected number, received NaN');
+        expect((await executeCommand(session, 'qty 1 0')).output).toBe('❌ quantity: Quantity must be at least 1');
+        expect((await executeCommand(session, 'attach {"category": "Coupon", "type": "Fixed", "amount": 50}')).output)
+            .toBe('❌ discounts.1: At most one Coupon campaign allowed: Fixed Amount Coupon (50.00 THB) is one too many');
+        expect((await executeCommand(session, 'attach {"category": "Coupon"')).output).toStartWith('❌ Campaign must be JSON');
+        expect((await executeCommand(session, 'remove 3')).output).toBe('❌ Pick item 1 to 1');
+        expect((await executeCommand(session, 'frobnicate')).output).toBe('❌ Unknown command: frobnicate (type help for the list)');
+
+        expect(session.cart).toEqual(before);
+    });
+
+    it('should check campaigns attached to an empty cart against the stacking policy', async () => {
+        const session = createSession();
+        await executeCommand(session, 'attach {"category": "Coupon", "type": "Percentage", "percentage": 10}');
+
+        expect((await executeCommand(session, 'attach {"category": "Coupon", "type": "Fixed", "amount": 50}')).output)
+            .toBe('❌ discounts.1: At most one Coupon campaign allowed: Fixed Amount Coupon (50.00 THB) is one too many');
+        expect(session.cart.discounts).toHaveLength(1);
+    });
+
+    it('should save the session as a cart file', async () => {
+        const session = createSession();
+        await executeCommand(session, 'add Jacket 1000 Clothing');
+        await executeCommand(session, 'attach {"category": "Coupon", "type": "Fixed", "amount": 100}');
+
+        const dir = mkdtempSync(join(tmpdir(), 'interactive-'));
+        const path = join(dir, 'cart.json');
+        expect((await executeCommand(session, `save ${dir}`)).output).toStartWith(`❌ Could not save to ${dir}: `);
+        expect((await executeCommand(session, `save ${path}`)).output).toBe(`💾 Cart saved to ${path}`);
+        expect(await Bun.file(path).json()).toEqual({
+            items: [{ name: 'Jacket', price: 1000, category: 'Clothing' }],
+            discounts: [{ category: 'Coupon', type: 'Fixed', amount: 100 }]
+        });
+        expect((await executeCommand(session, 'quit')).quit).toBe(true);
+    });
+});
@@ -0,0 +1,196 @@
+import { DiscountCampaignSchema } from "./campaigns"
+import { calculateDiscount } from "./discount"
+import { checkStackingPolicy } from "./policy"
+import { renderText } from "./renderers"
+import { CartItemSchema, CartSchema, type CalculationOptions, type Cart } from "./schema"
+import type { z } from "zod"
+
+type CartInput = z.input<typeof CartSchema>
+
+/**
+ * Cart being edited in the REPL. It is kept in its input form, so items
+ * added by SKU are saved by SKU, and every change is validated before it is
+ * kept: a rejected command leaves the cart as it was.
+ */
+export interface CartSession {
+    cart: CartInput;
+    options: CalculationOptions;
+}
+
+export interface CommandOutcome {
+    output: string;
+    quit?: boolean;
+}
+
+export const REPL_HELP = `COMMANDS:
+  add <name> <price> <category> [quantity]   Add an item; quote names with spaces
+  add <sku> [quantity]                        Add a catalog product (--products)
+  remove <item#>                              Remove an item
+  qty <item#> <quantity>                      Change an item's quantity
+  attach <campaign JSON>                      Attach a campaign, e.g.
+                                              attach {"category": "Coupon", "type": "Percentage", "percentage": 10}
+  detach <campaign#>                          Detach a campaign
+  show                                        Print the receipt
+  save <file.json>                            Save the cart as a cart JSON file
+  help                                        Show this list
+  quit                                        Leave without saving`
+
+export function createSession(cart: CartInput = { items: [], discounts: [] }, options: CalculationOptions = {}): CartSession {
+    return { cart: { ...cart, items: [...cart.items], discounts: [...cart.discounts] }, options }
+}
+
+// Runs one line typed at the prompt; changes print the recalculated receipt
+export async function executeCommand(session: CartSession, line: string): Promise<CommandOutcome> {
+    const [command = "", ...args] = tokenize(line)
+    const rest = line.trim().slice(command.length).trim()
+
+    switch (command.toLowerCase()) {
+        case "":
+            return { output: "" }
+        case "help":
+            return { output: REPL_HELP }
+        case "quit":
+        case "exit":
+            return { output: "👋 Bye", quit: true }
+        case "show":
+            return { output: renderSession(session) }
+        case "add":
+            return addItem(session, args)
+        case "remove":
+            return withIndex(args[0], session.cart.items.length, "item", index =>
+                change(session, { ...session.cart, items: session.cart.items.filter((_, i) => i !== index) }))
+        case "qty":
+            return withIndex(args[0], session.cart.items.length, "item", index => {
+                const items = session.cart.items.map((item, i) => i === index ? { ...item, quantity: Number(args[1]) } : item)
+                return checkItem(items[index]) ?? change(session, { ...session.cart, items })
+            })
+        case "attach":
+            return attachCampaign(session, rest)
+        case "detach":
+            return withIndex(args[0], session.cart.discounts.length, "campaign", index =>
+                change(session, { ...session.cart, discounts: session.cart.discounts.filter((_, i) => i !== index) }))
+        case "save":
+            return saveSession(session, args[0])
+        default:
+            return { output: `❌ Unknown command: ${command} (type help for the list)` }
+    }
+}
+
+// The receipt for a valid cart, or why there is none yet
+export function renderSession(session: CartSession): string {
+    if (session.cart.items.length === 0) {
+        return "🛒 The cart is empty; add an item to see the receipt"
+    }
+    const parsed = CartSchema.safeParse(session.cart)
+    if (!parsed.success) {
+        return formatIssues(parsed.error)
+    }
+    return renderCart(parsed.data, session.options)
+}
+
+/**
+ * Reads commands from stdin until quit or end of input. The receipt is
+ * printed again after every accepted change.
+ */
+export async function runInteractive(session: CartSession): Promise<void> {
+    const prompt = () => process.stdout.write("🛒 > ")
+
+    console.log("🧾 Interactive cart builder; type help for the commands")
+    console.log(renderSession(session))
+    prompt()
+    for await (const line of console) {
+        const outcome = await executeCommand(session, line)
+        if (outcome.output) console.log(outcome.output)
+        if (outcome.quit) return
+        prompt()
+    }
+    console.log("")
+}
+
+function addItem(session: CartSession, args: string[]): CommandOutcome {
+    if (args.length === 0) {
+        return { output: "❌ Usage: add <name> <price> <category> [quantity] or add <sku> [quantity]" }
+    }
+    const [first, second, third, fourth] = args as [string, ...(string | undefined)[]]
+    const item = args.length <= 2
+        ? { sku: first, ...(second !== undefined && { quantity: Number(second) }) }
+        : { name: first, price: Number(second), category: third, ...(fourth !== undefined && { quantity: Number(fourth) }) }
+
+    return checkItem(item) ?? change(session, { ...session.cart, items: [...session.cart.items, item] })
+}
+
+function attachCampaign(session: CartSession, json: string): CommandOutcome {
+    let data: unknown
+    try {
+        data = JSON.parse(json)
+    } catch {
+        return { output: "❌ Campaign must be JSON, e.g. attach {\"category\": \"Coupon\", \"type\": \"Fixed\", \"amount\": 50}" }
+    }
+    const parsed = DiscountCampaignSchema.safeParse(data)
+    if (!parsed.success) {
+        return { output: formatIssues(parsed.error) }
+    }
+    return change(session, { ...session.cart, discounts: [...session.cart.discounts, data as z.input<typeof DiscountCampaignSchema>] })
+}
+
+async function saveSession(session: CartSession, path: string | undefined): Promise<CommandOutcome> {
+    if (!path) {
+        return { output: "❌ Usage: save <file.json>" }
+    }
+    try {
+        await Bun.write(path, JSON.stringify(session.cart, null, 4) + "\n")
+    } catch (error) {
+        // The session stays open, so the cart can still be saved somewhere else
+        return { output: `❌ Could not save to ${path}: ${(error as Error).message}` }
+    }
+    return { output: `💾 Cart saved to ${path}` }
+}
+
+// Inline validation of a single line, before the whole cart is checked
+function checkItem(item: unknown): CommandOutcome | undefined {
+    const parsed = CartItemSchema.safeParse(item)
+    return parsed.success ? undefined : { output: formatIssues(parsed.error) }
+}
+
+// Keeps the change only when the whole cart is still valid, e.g. within the stacking policy
+function change(session: CartSession, cart: CartInput): CommandOutcome {
+    if (cart.items.length > 0) {
+        const parsed = CartSchema.safeParse(cart)
+        if (!parsed.success) {
+            return { output: formatIssues(parsed.error) }
+        }
+        session.cart = cart
+        return { output: renderCart(parsed.data, session.options) }
+    }
+
+    // An empty cart fails the schema, but its campaigns still have to stack
+    const violations = checkStackingPolicy(DiscountCampaignSchema.array().parse(cart.discounts), cart.currency)
+    if (violations.length > 0) {
+        return { output: violations.map(({ index, message }) => `❌ discounts.${index}: ${message}`).join("\n") }
+    }
+    session.cart = cart
+    return { output: renderSession(session) }
+}
+
+function withIndex(arg: string | undefined, count: number, noun: string, run: (index: number) => CommandOutcome): CommandOutcome {
+    const position = Number(arg)
+    if (!Number.isInteger(position) || position < 1 || position > count) {
+        return { output: count === 0 ? `❌ No ${noun}s yet` : `❌ Pick ${noun} 1 to ${count}` }
+    }
+    return run(position - 1)
+}
+
+function renderCart(cart: Cart, options: CalculationOptions): string {
+    return renderText(cart, calculateDiscount(cart.items, cart.discounts, { ...options, currency: cart.currency, shipping: cart.shipping }))
+}
+
+function formatIssues(error: z.ZodError): string {
+    return error.issues
+        .map(issue => `❌ ${issue.path.length > 0 ? issue.path.join(".") + ": " : ""}${issue.message}`)
+        .join("\n")
+}
+
+// Splits on whitespace; double quotes keep spaces inside one argument
+function tokenize(line: string): string[] {
+    return [...line.matchAll(/"([^"]*)"|(\S+)/g)].map(match => match[1] ?? match[2]!)
+}
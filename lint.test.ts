@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'bun:test';
+import { lintCart } from './lint';
+
+const items = [{ name: 'Jacket', price: 1000, category: 'Clothing' }];
+
+describe('lintCart', () => {
+    it('should warn about campaigns that give less than they seem to', () => {
+        const report = lintCart({
+            items,
+            discounts: [
+                { category: 'Coupon', type: 'Fixed', amount: 1200 },
+                { category: 'On Top', type: 'Percentage', targetCategory: 'Electronics', percentage: 10 },
+                { category: 'Seasonal', type: 'Special', everyXThb: 2000, discountYThb: 50 }
+            ]
+        });
+
+        expect(report).toMatchObject({ valid: true, errors: 0, warnings: 3 });
+        expect(report.issues.map(({ severity, path, code }) => ({ severity, path, code }))).toEqual([
+            { severity: 'warning', path: 'discounts.0', code: 'DISCOUNT_EXCEEDS_TOTAL' },
+            { severity: 'warning', path: 'discounts.1.targetCategory', code: 'CATEGORY_NOT_IN_CART' },
+            { severity: 'warning', path: 'discounts.2', code: 'SEASONAL_THRESHOLD_NOT_MET' }
+        ]);
+        expect(report.issues[1]?.message).toBe('Category Discount (Electronics 10%) targets Electronics, but the cart has no Electronics items');
+    });
+
+    it('should warn when the cap cuts the points or a condition is not met', () => {
+        const report = lintCart({
+            items,
+            discounts: [
+                { category: 'On Top', type: 'Fixed', customerPoints: 500 },
+                { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 50, conditions: { minSubtotal: 5000 } }
+            ]
+        });
+
+        expect(report.issues).toEqual([
+            {
+                severity: 'warning',
+                path: 'discounts.0',
+                code: 'POINTS_CAPPED',
+                message: 'Points Discount (500 points) is worth 500.00 THB, but only 200.00 THB can be used: points may pay for 20% of the running total'
+            },
+            {
+                severity: 'warning',
+                path: 'discounts.1',
+                code: 'CONDITION_NOT_MET',
+                message: 'Seasonal (50.00 THB per 300.00 THB) will not apply: Subtotal 1,000.00 THB is below the minimum of 5,000.00 THB'
+            }
+        ]);
+    });
+
+    it('should warn when the targeted items have less left than the discount', () => {
+        const report = lintCart({
+            items: [...items, { name: 'Hat', price: 100, category: 'Accessories' }],
+            discounts: [
+                { category: 'Coupon', type: 'Fixed', amount: 550 },
+                { category: 'On Top', type: 'Percentage', targetCategory: 'Clothing', percentage: 100 }
+            ]
+        });
+
+        // The jacket carries 500 of the coupon, so 500 of it is left while 550 is left in total
+        expect(report.issues).toEqual([{
+            severity: 'warning',
+            path: 'discounts.1',
+            code: 'DISCOUNT_EXCEEDS_ITEMS',
+            message: 'Category Discount (Clothing 100%) is worth 1,000.00 THB, but the items it targets only have 500.00 THB left to discount'
+        }]);
+    });
+
+    it('should report every validation error with its Zod code', () => {
+        const report = lintCart({
+            items: [{ name: 'Jacket', price: -1, category: 'Clothing' }],
+            discounts: [{ category: 'Coupon', type: 'Percentage', percentage: 120 }]
+        });
+
+        expect(report.valid).toBe(false);
+        expect(report.errors).toBe(2);
+        expect(report.issues.map(({ severity, path, code }) => ({ severity, path, code }))).toContainEqual(
+            { severity: 'error', path: 'items.0.price', code: 'too_small' }
+        );
+    });
+
+    it('should report nothing for a cart without surprises', () => {
+        const report = lintCart({
+            items,
+            discounts: [{ category: 'Coupon', type: 'Percentage', percentage: 10 }]
+        });
+
+        expect(report).toEqual({ valid: true, errors: 0, warnings: 0, issues: [] });
+    });
+});
@@ -0,0 +1,112 @@
+import { z } from "zod/v4";
+import { describeCampaign } from "./campaigns";
+import { isInCategory } from "./categories";
+import { calculateDiscount } from "./discount";
+import { DEFAULT_CURRENCY, formatCurrency } from "./money";
+import { stageOrder } from "./policy";
+import { CartSchema, type CalculationOptions, type Cart, type TraceStep } from "./schema";
+
+export const LintSeverity = z.enum(["error", "warning"]);
+
+// Valid carts that probably do not do what was intended
+export const LintWarningCode = z.enum([
+    "CATEGORY_NOT_IN_CART",
+    "DISCOUNT_EXCEEDS_TOTAL",
+    "DISCOUNT_EXCEEDS_ITEMS",
+    "SEASONAL_THRESHOLD_NOT_MET",
+    "POINTS_CAPPED",
+    "CONDITION_NOT_MET",
+    "NO_SHIPPING_FEE"
+]);
+
+export type LintSeverity = z.infer<typeof LintSeverity>;
+export type LintWarningCode = z.infer<typeof LintWarningCode>;
+
+export interface LintIssue {
+    severity: LintSeverity;
+    // Where the problem sits in the cart, e.g. discounts.0.targetCategory
+    path: string;
+    // The Zod issue code for errors, a LintWarningCode for warnings
+    code: string;
+    message: string;
+}
+
+export interface LintReport {
+    // False when the cart would be rejected; warnings alone keep it valid
+    valid: boolean;
+    errors: number;
+    warnings: number;
+    issues: LintIssue[];
+}
+
+/**
+ * Validates the cart like CartSchema and, when it is valid, calculates it to
+ * collect warnings for campaigns that will give less than they seem to:
+ * category discounts for categories the cart lacks, amounts above the total
+ * or above what the targeted items have left, seasonal thresholds the cart
+ * does not reach, points cut by the cap,
+ * unmet conditions and shipping campaigns with no fee to discount. Coupon
+ * codes and loyalty points are not resolved.
+ */
+export function lintCart(data: unknown, options: CalculationOptions = {}): LintReport {
+    const parsed = CartSchema.safeParse(data);
+    const issues: LintIssue[] = parsed.success
+        ? findWarnings(parsed.data, options)
+        : parsed.error.issues.map(issue => ({
+            severity: "error",
+            path: issue.path.length > 0 ? issue.path.join(".") : "root",
+            code: issue.code,
+            message: issue.message
+        }));
+
+    const errors = issues.filter(issue => issue.severity === "error").length;
+    return { valid: errors === 0, errors, warnings: issues.length - errors, issues };
+}
+
+function findWarnings(cart: Cart, options: CalculationOptions): LintIssue[] {
+    const currency = cart.currency ?? DEFAULT_CURRENCY;
+    const money = (amount: number) => formatCurrency(amount, currency);
+    // Grouped per campaign so the report follows the cart rather than the stage order
+    const warnings: LintIssue[][] = cart.discounts.map(() => []);
+    const warn = (index: number, path: string, code: LintWarningCode, message: string) => warnings[index]!.push({ severity: "warning", path, code, message });
+
+    // Checked on their own, the calculation would only show a zero discount
+    const missingCategory = new Set<number>();
+    cart.discounts.forEach((campaign, index) => {
+        if (!("targetCategory" in campaign) || campaign.targetCategory === undefined) return;
+        const target = campaign.targetCategory;
+        if (!cart.items.some(item => isInCategory(item.category, target))) {
+            missingCategory.add(index);
+            warn(index, `discounts.${index}.targetCategory`, "CATEGORY_NOT_IN_CART", `${describeCampaign(campaign, currency)} targets ${target}, but the cart has no ${target} items`);
+        }
+    });
+
+    const result = calculateDiscount(cart.items, cart.discounts, { ...options, currency, shipping: cart.shipping, trace: true });
+    const steps = result.trace ?? [];
+    stageOrder(cart.discounts).forEach((index, position) => {
+        const step = steps[position];
+        if (!step || missingCategory.has(index)) return;
+        const path = `discounts.${index}`;
+
+        if (!step.applied) {
+            warn(index, path, "CONDITION_NOT_MET", `${step.description} will not apply: ${step.reason}`);
+        } else if (step.category === "Shipping" && step.totalBefore === 0) {
+            const why = result.shipping?.freeOverThreshold ? "shipping is already free over the threshold" : "the cart has no shipping fee";
+            warn(index, path, "NO_SHIPPING_FEE", `${step.description} gives nothing: ${why}`);
+        } else if (step.cappedBy === "runningTotal") {
+            warn(index, path, "DISCOUNT_EXCEEDS_TOTAL", `${step.description} is worth ${money(step.calculatedAmount ?? 0)}, but only ${money(step.totalBefore)} is left to discount`);
+        } else if (step.cappedBy === "targetedLines") {
+            warn(index, path, "DISCOUNT_EXCEEDS_ITEMS", `${step.description} is worth ${money(step.calculatedAmount ?? 0)}, but the items it targets only have ${money(step.discountAmount)} left to discount`);
+        } else if (step.parameters?.capHit === true) {
+            warn(index, path, "POINTS_CAPPED", `${step.description} is worth ${money(Number(step.parameters.pointsValue))}, but only ${money(step.discountAmount)} can be used: points may pay for ${step.parameters.capPercentage}% of the running total`);
+        } else if (step.category === "Seasonal" && step.discountAmount === 0) {
+            warn(index, path, "SEASONAL_THRESHOLD_NOT_MET", `${step.description} gives nothing: the ${spendLabel(step)} of ${money(Number(step.parameters?.runningTotal ?? step.parameters?.categoryTotal ?? 0))} is below its threshold`);
+        }
+    });
+
+    return warnings.flat();
+}
+
+function spendLabel(step: TraceStep): string {
+    return step.parameters?.targetCategory === undefined ? "running total" : `${step.parameters.targetCategory} spend`;
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'bun:test';
+import { setExchangeRates } from './currency';
+import { calculateDiscount } from './discount';
+import { adjustPoints, applyLoyalty, applyRedeemedPoints, getPointsBalance, LoyaltyProgramSchema, openLoyaltyLedger, saveLoyaltyPrograms, settleLoyalty } from './loyalty';
+import type { Cart } from './schema';
+
+function ledger() {
+    const db = openLoyaltyLedger(':memory:');
+    saveLoyaltyPrograms(db, [
+        LoyaltyProgramSchema.parse({ id: 'default', earnRate: 0.04 }),
+        LoyaltyProgramSchema.parse({ id: 'gold', pointsToThbRatio: 0.5, capPercentage: 30 })
+    ]);
+    adjustPoints(db, [
+        { customerId: 'c-1', program: 'default', points: 1000 },
+        { customerId: 'c-1', program: 'gold', points: 1000 }
+    ]);
+    return db;
+}
+
+function cartWith(loyalty: Cart['loyalty']): Cart {
+    return {
+        items: [{ name: 'Watch', price: 1000, category: 'Accessories', quantity: 1 }],
+        discounts: [],
+        customerId: 'c-1',
+        loyalty
+    };
+}
+
+function checkout(db: ReturnType<typeof ledger>, cart: Cart, commit: boolean) {
+    const applied = applyLoyalty(db, cart);
+    if (!applied.ok) throw new Error(applied.issues[0]!.message);
+    const result = calculateDiscount(applied.cart.items, applied.cart.discounts, { currency: applied.cart.currency });
+    return settleLoyalty(db, applied.cart, result, commit);
+}
+
+describe('Loyalty ledger', () => {
+    it('should burn only the points the capped discount used', () => {
+        const db = ledger();
+
+        const settled = checkout(db, cartWith({ program: 'default', redeemPoints: 'all' }), false);
+
+        expect(settled.ok && settled.result.finalTotal).toBe(800);
+        expect(settled.ok && settled.result.appliedCampaigns[0]?.pointsRedeemed).toBe(200);
+        expect(settled.ok && settled.result.loyalty).toEqual({
+            customerId: 'c-1',
+            program: 'default',
+            balanceBefore: 1000,
+            pointsRedeemed: 200,
+            pointsEarned: 32,
+            balanceAfter: 832,
+            committed: false
+        });
+    });
+
+    it("should use the program's ratio and cap", () => {
+        const db = ledger();
+
+        const settled = checkout(db, cartWith({ program: 'gold', redeemPoints: 400 }), false);
+
+        // 400 points × 0.5 THB stays under the 30% cap of 300 THB
+        expect(settled.ok && settled.result.totalDiscount).toBe(200);
+        expect(settled.ok && settled.result.loyalty?.pointsRedeemed).toBe(400);
+    });
+
+    it('should only change balances when committed', () => {
+        const db = ledger();
+        const cart = cartWith({ program: 'default', redeemPoints: 'all' });
+
+        checkout(db, cart, false);
+        expect(getPointsBalance(db, 'c-1', 'default')).toBe(1000);
+
+        const settled = checkout(db, cart, true);
+        expect(settled.ok && settled.result.loyalty?.committed).toBe(true);
+        expect(getPointsBalance(db, 'c-1', 'default')).toBe(832);
+    });
+
+    it('should earn points on orders that redeem none', () => {
+        const db = ledger();
+
+        checkout(db, cartWith({ program: 'default' }), true);
+
+        expect(getPointsBalance(db, 'c-1', 'default')).toBe(1040);
+    });
+
+    it('should reject requests for more points than the balance', () => {
+        expect(applyLoyalty(ledger(), cartWith({ program: 'default', redeemPoints: 1001 }))).toMatchObject({
+            ok: false,
+            issues: [{ code: 'INSUFFICIENT_POINTS', path: 'loyalty.redeemPoints' }]
+        });
+    });
+
+    it('should recheck the balance when committing', () => {
+        const db = ledger();
+        const applied = applyLoyalty(db, cartWith({ program: 'default', redeemPoints: 'all' }));
+        if (!applied.ok) throw new Error('expected the points to apply');
+        const result = calculateDiscount(applied.cart.items, applied.cart.discounts);
+
+        // Another order spends the points in between
+        adjustPoints(db, [{ customerId: 'c-1', program: 'default', points: -900 }]);
+
+        expect(settleLoyalty(db, applied.cart, result, true)).toMatchObject({ ok: false, issues: [{ code: 'INSUFFICIENT_POINTS' }] });
+        expect(getPointsBalance(db, 'c-1', 'default')).toBe(100);
+    });
+
+    it('should reject points campaigns the cart brings itself', () => {
+        const cart: Cart = { ...cartWith({ program: 'default' }), discounts: [{ category: 'On Top', type: 'Fixed', customerPoints: 5000, capPercentage: 100 }] };
+
+        expect(applyLoyalty(ledger(), cart)).toMatchObject({ ok: false, issues: [{ code: 'POINTS_CAMPAIGN', path: 'discounts.0' }] });
+    });
+
+    it('should report unknown programs and a missing ledger', () => {
+        expect(applyLoyalty(ledger(), cartWith({ program: 'platinum' }))).toMatchObject({ ok: false, issues: [{ code: 'UNKNOWN_PROGRAM' }] });
+        expect(applyLoyalty(undefined, cartWith({ program: 'default' }))).toMatchObject({ ok: false, issues: [{ code: 'NO_LEDGER' }] });
+    });
+
+    it('should value and earn points in THB for carts in another currency', () => {
+        const db = ledger();
+        const cart: Cart = { ...cartWith({ program: 'default', redeemPoints: 200 }), currency: 'USD', items: [{ name: 'Watch', price: 100, category: 'Accessories', quantity: 1 }] };
+        expect(applyLoyalty(db, cart)).toMatchObject({ ok: false, issues: [{ code: 'EXCHANGE_RATE', path: 'currency' }] });
+
+        setExchangeRates({ base: 'THB', rates: { USD: 0.025 } });
+        try {
+            const settled = checkout(db, cart, false);
+
+            // 200 points are 200 THB, or 5 USD; 95 USD is 3,800 THB at 0.04 points per THB
+            expect(settled.ok && settled.result.totalDiscount).toBe(5);
+            expect(settled.ok && settled.result.loyalty?.pointsEarned).toBe(152);
+        } finally {
+            setExchangeRates(undefined);
+        }
+    });
+
+    it('should restore the points an order burned for its refund, without the balance check', () => {
+        const db = ledger();
+        const cart = cartWith({ program: 'default', redeemPoints: 'all' });
+        const settled = checkout(db, cart, true);
+        if (!settled.ok) throw new Error('expected the order to settle');
+
+        const restored = applyRedeemedPoints(db, cart, settled.result);
+
+        expect(restored.ok && restored.cart.discounts).toMatchObject([{ customerPoints: 200, pointsToThbRatio: 1 }]);
+        expect(applyRedeemedPoints(db, cart)).toMatchObject({ ok: false, issues: [{ code: 'UNKNOWN_REDEMPTION' }] });
+    });
+
+    it('should refuse adjustments that take the balance below zero', () => {
+        const db = ledger();
+
+        expect(() => adjustPoints(db, [
+            { customerId: 'c-1', program: 'default', points: 50 },
+            { customerId: 'c-1', program: 'default', points: -2000 }
+        ])).toThrow('balance is 1050');
+        expect(getPointsBalance(db, 'c-1', 'default')).toBe(1000);
+    });
+});
@@ -0,0 +1,286 @@
+import type { Database } from "bun:sqlite";
+import { z } from "zod/v4";
+import { POINTS_CAP_PERCENTAGE, POINTS_TO_THB_RATIO } from "./campaigns";
+import { convertAmount, exchangeRate } from "./currency";
+import { openDatabase } from "./database";
+import { DEFAULT_CURRENCY } from "./money";
+import { checkStackingPolicy } from "./policy";
+import type { Cart, DiscountCampaign, DiscountResult, LoyaltySummary } from "./schema";
+
+// Redemption and earn rules of a loyalty program
+export const LoyaltyProgramSchema = z.object({
+    id: z.string().min(1, "Program id is required"),
+    // THB one point is worth when redeemed
+    pointsToThbRatio: z.number().positive("Points to THB ratio must be positive").optional().default(POINTS_TO_THB_RATIO),
+    // Share of the running total points may pay for, in percent
+    capPercentage: z.number().min(0).max(100, "Cap percentage must be between 0 and 100").optional().default(POINTS_CAP_PERCENTAGE * 100),
+    // Points earned per THB of finalTotal, e.g. 0.04 for one point per 25 THB
+    earnRate: z.number().min(0, "Earn rate must be non-negative").optional().default(0)
+});
+
+export const PointsAdjustmentSchema = z.object({
+    customerId: z.string().min(1, "Customer id is required"),
+    program: z.string().min(1).optional().default("default"),
+    // Opening balances and corrections; negative values take points away
+    points: z.number().int(),
+    note: z.string().optional()
+});
+
+export const LoyaltyImportSchema = z.object({
+    programs: z.array(LoyaltyProgramSchema).optional().default([]),
+    adjustments: z.array(PointsAdjustmentSchema).optional().default([])
+});
+
+// Programs set the worth of a point and the earn rate in THB, whatever the cart's currency
+const PROGRAM_CURRENCY = "THB";
+
+export const LoyaltyErrorCode = z.enum(["NO_LEDGER", "UNKNOWN_PROGRAM", "INSUFFICIENT_POINTS", "POINTS_CAMPAIGN", "STACKING_POLICY", "UNKNOWN_REDEMPTION", "EXCHANGE_RATE"]);
+
+export type LoyaltyProgram = z.infer<typeof LoyaltyProgramSchema>;
+export type PointsAdjustment = z.infer<typeof PointsAdjustmentSchema>;
+export type LoyaltyErrorCode = z.infer<typeof LoyaltyErrorCode>;
+
+export interface LoyaltyIssue {
+    code: LoyaltyErrorCode;
+    path: string;
+    message: string;
+}
+
+interface ProgramRow {
+    id: string;
+    points_to_thb_ratio: number;
+    cap_percentage: number;
+    earn_rate: number;
+}
+
+export function openLoyaltyLedger(path: string): Database {
+    const db = openDatabase(path);
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS loyalty_programs (
+            id TEXT PRIMARY KEY,
+            points_to_thb_ratio REAL NOT NULL,
+            cap_percentage REAL NOT NULL,
+            earn_rate REAL NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS loyalty_accounts (
+            customer_id TEXT NOT NULL,
+            program TEXT NOT NULL REFERENCES loyalty_programs(id),
+            balance INTEGER NOT NULL CHECK (balance >= 0),
+            PRIMARY KEY (customer_id, program)
+        );
+        CREATE TABLE IF NOT EXISTS loyalty_transactions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            customer_id TEXT NOT NULL,
+            program TEXT NOT NULL,
+            kind TEXT NOT NULL CHECK (kind IN ('earn', 'burn', 'adjust')),
+            points INTEGER NOT NULL,
+            note TEXT,
+            created_at TEXT NOT NULL
+        );
+    `);
+    return db;
+}
+
+export function saveLoyaltyPrograms(db: Database, programs: LoyaltyProgram[]): void {
+    const upsert = db.prepare(`
+        INSERT INTO loyalty_programs (id, points_to_thb_ratio, cap_percentage, earn_rate) VALUES (?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+            points_to_thb_ratio = excluded.points_to_thb_ratio,
+            cap_percentage = excluded.cap_percentage,
+            earn_rate = excluded.earn_rate
+    `);
+    db.transaction(() => {
+        programs.forEach(program => upsert.run(program.id, program.pointsToThbRatio, program.capPercentage, program.earnRate));
+    })();
+}
+
+export function findLoyaltyProgram(db: Database, id: string): LoyaltyProgram | undefined {
+    const row = db.query<ProgramRow, [string]>("SELECT * FROM loyalty_programs WHERE id = ?").get(id);
+    return row ? { id: row.id, pointsToThbRatio: row.points_to_thb_ratio, capPercentage: row.cap_percentage, earnRate: row.earn_rate } : undefined;
+}
+
+export function getPointsBalance(db: Database, customerId: string, program: string): number {
+    const row = db.query<{ balance: number }, [string, string]>("SELECT balance FROM loyalty_accounts WHERE customer_id = ? AND program = ?").get(customerId, program);
+    return row?.balance ?? 0;
+}
+
+// Applies opening balances and corrections; throws if one would go below zero
+export function adjustPoints(db: Database, adjustments: PointsAdjustment[], now: Date = new Date()): void {
+    db.transaction(() => {
+        for (const adjustment of adjustments) {
+            if (!findLoyaltyProgram(db, adjustment.program)) {
+                throw new Error(`Unknown loyalty program: ${adjustment.program}`);
+            }
+            const balance = getPointsBalance(db, adjustment.customerId, adjustment.program);
+            if (balance + adjustment.points < 0) {
+                throw new Error(`Cannot take ${-adjustment.points} points from ${adjustment.customerId}: balance is ${balance}`);
+            }
+            recordPoints(db, adjustment.customerId, adjustment.program, "adjust", adjustment.points, adjustment.note, now);
+        }
+    }).immediate();
+}
+
+/**
+ * Turns the cart's loyalty redemption into a points campaign using the
+ * customer's balance and the program's ratio and cap. Carts without a
+ * loyalty section pass through unchanged, even without a ledger. Carts with
+ * one cannot bring their own points campaigns: those would be burned from
+ * the ledger without the balance check and the program's ratio and cap.
+ */
+export function applyLoyalty(db: Database | undefined, cart: Cart): { ok: true; cart: Cart } | { ok: false; issues: LoyaltyIssue[] } {
+    if (!cart.loyalty) {
+        return { ok: true, cart };
+    }
+    if (!db) {
+        return { ok: false, issues: [{ code: "NO_LEDGER", path: "loyalty", message: "Cart uses loyalty points but no loyalty ledger is configured" }] };
+    }
+
+    const program = findLoyaltyProgram(db, cart.loyalty.program);
+    if (!program) {
+        return { ok: false, issues: [{ code: "UNKNOWN_PROGRAM", path: "loyalty.program", message: `Unknown loyalty program: ${cart.loyalty.program}` }] };
+    }
+    const rateIssue = missingRate(cart);
+    if (rateIssue) {
+        return { ok: false, issues: [rateIssue] };
+    }
+
+    const pointsCampaigns: LoyaltyIssue[] = cart.discounts.flatMap((campaign, index) => "customerPoints" in campaign
+        ? [{ code: "POINTS_CAMPAIGN" as const, path: `discounts.${index}`, message: "Points are redeemed through loyalty.redeemPoints when the cart has a loyalty section" }]
+        : []);
+    if (pointsCampaigns.length > 0) {
+        return { ok: false, issues: pointsCampaigns };
+    }
+
+    const { redeemPoints } = cart.loyalty;
+    if (redeemPoints === undefined) {
+        return { ok: true, cart };
+    }
+
+    const balance = getPointsBalance(db, cart.customerId!, program.id);
+    if (redeemPoints !== "all" && redeemPoints > balance) {
+        return { ok: false, issues: [insufficientPoints(cart.customerId!, redeemPoints, balance)] };
+    }
+
+    const discounts = [...cart.discounts, pointsCampaign(program, redeemPoints === "all" ? balance : redeemPoints)];
+    // The points campaign is the last one, so it is the one any violation points at
+    const violation = checkStackingPolicy(discounts, cart.currency)[0];
+    if (violation) {
+        return { ok: false, issues: [{ code: "STACKING_POLICY", path: "loyalty.redeemPoints", message: violation.message }] };
+    }
+    return { ok: true, cart: { ...cart, discounts } };
+}
+
+/**
+ * Turns the loyalty redemption of an order that was already placed back into
+ * its points campaign, as a refund needs it. The points are the ones the
+ * order burned, taken from its result, so the balance is not checked again;
+ * without the result only a fixed redeemPoints says how many were used.
+ */
+export function applyRedeemedPoints(db: Database | undefined, cart: Cart, originalResult?: DiscountResult): { ok: true; cart: Cart } | { ok: false; issues: LoyaltyIssue[] } {
+    if (cart.loyalty?.redeemPoints === undefined) {
+        return { ok: true, cart };
+    }
+    if (!db) {
+        return { ok: false, issues: [{ code: "NO_LEDGER", path: "loyalty", message: "Cart uses loyalty points but no loyalty ledger is configured" }] };
+    }
+
+    const program = findLoyaltyProgram(db, cart.loyalty.program);
+    if (!program) {
+        return { ok: false, issues: [{ code: "UNKNOWN_PROGRAM", path: "loyalty.program", message: `Unknown loyalty program: ${cart.loyalty.program}` }] };
+    }
+    const rateIssue = missingRate(cart);
+    if (rateIssue) {
+        return { ok: false, issues: [rateIssue] };
+    }
+
+    const { redeemPoints } = cart.loyalty;
+    const points = originalResult
+        ? originalResult.appliedCampaigns.reduce((sum, campaign) => sum + (campaign.pointsRedeemed ?? 0), 0)
+        : redeemPoints;
+    if (points === "all") {
+        return { ok: false, issues: [{ code: "UNKNOWN_REDEMPTION", path: "loyalty.redeemPoints", message: "The points an order redeemed with \"all\" are only known from its originalResult" }] };
+    }
+    return points > 0 ? { ok: true, cart: { ...cart, discounts: [...cart.discounts, pointsCampaign(program, points)] } } : { ok: true, cart };
+}
+
+/**
+ * Works out the points the order burns and earns and attaches the summary to
+ * the result. Only the points the discount actually used are burned, which
+ * can be fewer than requested once the cap applies. With commit the ledger
+ * is updated inside an immediate transaction that rechecks the balance, so
+ * two concurrent orders cannot spend the same points.
+ */
+export function settleLoyalty(
+    db: Database,
+    cart: Cart,
+    result: DiscountResult,
+    commit: boolean,
+    now: Date = new Date()
+): { ok: true; result: DiscountResult } | { ok: false; issues: LoyaltyIssue[] } {
+    if (!cart.loyalty || !cart.customerId) {
+        return { ok: true, result };
+    }
+    const customerId = cart.customerId;
+    const program = findLoyaltyProgram(db, cart.loyalty.program);
+    if (!program) {
+        return { ok: false, issues: [{ code: "UNKNOWN_PROGRAM", path: "loyalty.program", message: `Unknown loyalty program: ${cart.loyalty.program}` }] };
+    }
+
+    const pointsRedeemed = result.appliedCampaigns.reduce((sum, campaign) => sum + (campaign.pointsRedeemed ?? 0), 0);
+    const pointsEarned = Math.floor(convertAmount(result.finalTotal, result.currency, PROGRAM_CURRENCY) * program.earnRate + 1e-9);
+
+    const settle = () => {
+        const balanceBefore = getPointsBalance(db, customerId, program.id);
+        if (pointsRedeemed > balanceBefore) {
+            return { ok: false as const, issues: [insufficientPoints(customerId, pointsRedeemed, balanceBefore)] };
+        }
+        if (commit) {
+            if (pointsRedeemed > 0) recordPoints(db, customerId, program.id, "burn", -pointsRedeemed, undefined, now);
+            if (pointsEarned > 0) recordPoints(db, customerId, program.id, "earn", pointsEarned, undefined, now);
+        }
+
+        const loyalty: LoyaltySummary = {
+            customerId,
+            program: program.id,
+            balanceBefore,
+            pointsRedeemed,
+            pointsEarned,
+            balanceAfter: balanceBefore - pointsRedeemed + pointsEarned,
+            committed: commit
+        };
+        return { ok: true as const, result: { ...result, loyalty } };
+    };
+
+    return commit ? db.transaction(settle).immediate() : settle();
+}
+
+function pointsCampaign(program: LoyaltyProgram, points: number): DiscountCampaign {
+    return {
+        category: "On Top",
+        type: "Fixed",
+        currency: PROGRAM_CURRENCY,
+        customerPoints: points,
+        pointsToThbRatio: program.pointsToThbRatio,
+        capPercentage: program.capPercentage
+    };
+}
+
+// Carts in another currency need a rate to THB to value points and earn them
+function missingRate(cart: Cart): LoyaltyIssue | undefined {
+    const currency = cart.currency ?? DEFAULT_CURRENCY;
+    return exchangeRate(currency, PROGRAM_CURRENCY) === undefined
+        ? { code: "EXCHANGE_RATE", path: "currency", message: `No exchange rate from ${currency} to ${PROGRAM_CURRENCY} for loyalty points` }
+        : undefined;
+}
+
+function recordPoints(db: Database, customerId: string, program: string, kind: "earn" | "burn" | "adjust", points: number, note: string | undefined, now: Date): void {
+    // The CHECK runs on the inserted row before ON CONFLICT, so open the account at zero first
+    db.prepare("INSERT OR IGNORE INTO loyalty_accounts (customer_id, program, balance) VALUES (?, ?, 0)").run(customerId, program);
+    db.prepare("UPDATE loyalty_accounts SET balance = balance + ? WHERE customer_id = ? AND program = ?").run(points, customerId, program);
+    db.prepare("INSERT INTO loyalty_transactions (customer_id, program, kind, points, note, created_at) VALUES (?, ?, ?, ?, ?, ?)")
+        .run(customerId, program, kind, points, note ?? null, now.toISOString());
+}
+
+function insufficientPoints(customerId: string, requested: number, balance: number): LoyaltyIssue {
+    return { code: "INSUFFICIENT_POINTS", path: "loyalty.redeemPoints", message: `Customer ${customerId} has ${balance} points, ${requested} requested` };
+}
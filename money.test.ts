@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'bun:test';
+import { formatCurrency, fromMinorUnits, minorUnitDigits, roundPayable, roundMinorUnits, toMinorUnits } from './money';
+
+describe('money', () => {
+    it('should use the minor units of each currency', () => {
+        expect(minorUnitDigits('JPY')).toBe(0);
+        expect(minorUnitDigits('BHD')).toBe(3);
+        expect(toMinorUnits(1499.6, 'JPY')).toBe(1500);
+        expect(fromMinorUnits(12345, 'BHD')).toBe(12.345);
+    });
+
+    it('should format amounts with the decimals of their currency', () => {
+        expect(formatCurrency(1950)).toBe('1,950.00 THB');
+        expect(formatCurrency(1950, 'JPY')).toBe('1,950 JPY');
+        expect(formatCurrency(12.5, 'USD')).toBe('12.50 USD');
+    });
+
+    it('should convert between THB and satang', () => {
+        expect(toMinorUnits(458.15)).toBe(45815);
+        expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+        expect(fromMinorUnits(45815)).toBe(458.15);
+    });
+
+    describe('roundMinorUnits', () => {
+        it('should round half-up', () => {
+            expect(roundMinorUnits(12.5, 'half-up')).toBe(13);
+            expect(roundMinorUnits(12.49, 'half-up')).toBe(12);
+        });
+
+        it('should round half to even (banker\'s rounding)', () => {
+            expect(roundMinorUnits(12.5, 'half-even')).toBe(12);
+            expect(roundMinorUnits(13.5, 'half-even')).toBe(14);
+            expect(roundMinorUnits(12.51, 'half-even')).toBe(13);
+        });
+
+        it('should round down with floor', () => {
+            expect(roundMinorUnits(12.99, 'floor')).toBe(12);
+        });
+
+        it('should ignore floating point noise', () => {
+            // 70000 * 34.55 / 100 is 24184.999999999996 in floating point
+            expect(roundMinorUnits((70000 * 34.55) / 100, 'floor')).toBe(24185);
+        });
+    });
+
+    describe('roundPayable', () => {
+        it('should only round to 0.25 THB with the cash policy', () => {
+            expect(roundPayable(10012, 'half-up')).toBe(10012);
+            expect(roundPayable(10012, 'cash')).toBe(10000);
+            expect(roundPayable(10013, 'cash')).toBe(10025);
+        });
+
+        it('should leave currencies without a cash step alone', () => {
+            expect(roundPayable(10013, 'cash', 'USD')).toBe(10013);
+        });
+    });
+});
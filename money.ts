@@ -0,0 +1,85 @@
+import type { RoundingPolicy } from "./schema";
+
+// Currency of carts and campaigns that do not name one
+export const DEFAULT_CURRENCY = "THB";
+
+// Smallest coin in circulation, in minor units; other currencies pay to the minor unit
+const CASH_STEPS: Record<string, number> = {
+    THB: 25 // 0.25 THB
+};
+const PRECISION = 1e6;
+const EPSILON = 1e-6;
+
+const digitsByCurrency = new Map<string, number>();
+
+/**
+ * Decimal places of the currency's minor unit from ISO 4217: 2 for THB
+ * (satang), 0 for JPY, 3 for BHD.
+ */
+export function minorUnitDigits(currency: string = DEFAULT_CURRENCY): number {
+    let digits = digitsByCurrency.get(currency);
+    if (digits === undefined) {
+        digits = new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+        digitsByCurrency.set(currency, digits);
+    }
+    return digits;
+}
+
+export function minorUnitsPer(currency: string = DEFAULT_CURRENCY): number {
+    return 10 ** minorUnitDigits(currency);
+}
+
+/**
+ * Converts an amount to integer minor units of its currency (satang for
+ * THB). Inputs are expected to carry at most the currency's decimals;
+ * anything finer is rounded half-up.
+ */
+export function toMinorUnits(amount: number, currency: string = DEFAULT_CURRENCY): number {
+    return Math.round(amount * minorUnitsPer(currency));
+}
+
+export function fromMinorUnits(units: number, currency: string = DEFAULT_CURRENCY): number {
+    return units / minorUnitsPer(currency);
+}
+
+/**
+ * Rounds a fractional minor-unit value to whole minor units. The cash policy
+ * rounds half-up here; the cash step only applies to the payable total
+ * (see roundPayable).
+ */
+export function roundMinorUnits(value: number, policy: RoundingPolicy): number {
+    // Snap away floating point noise such as 24184.999999999996 first
+    const snapped = Math.round(value * PRECISION) / PRECISION;
+    const floor = Math.floor(snapped);
+    const fraction = snapped - floor;
+
+    switch (policy) {
+        case "floor":
+            return floor;
+        case "half-even":
+            if (Math.abs(fraction - 0.5) < EPSILON) {
+                return floor % 2 === 0 ? floor : floor + 1;
+            }
+            return fraction > 0.5 ? floor + 1 : floor;
+        case "half-up":
+        case "cash":
+            return fraction + EPSILON >= 0.5 ? floor + 1 : floor;
+    }
+}
+
+/**
+ * Rounds the amount the customer pays. Only the cash policy changes it,
+ * rounding half-up to the currency's smallest coin (0.25 THB).
+ */
+export function roundPayable(units: number, policy: RoundingPolicy, currency: string = DEFAULT_CURRENCY): number {
+    const step = CASH_STEPS[currency];
+    if (policy !== "cash" || step === undefined) {
+        return units;
+    }
+    return Math.floor((units + step / 2) / step) * step;
+}
+
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+    const digits = minorUnitDigits(currency);
+    return `${amount.toLocaleString('th-TH', { minimumFractionDigits: digits, maximumFractionDigits: digits })} ${currency}`;
+}
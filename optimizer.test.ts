@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'bun:test';
+import { findBestCombination } from './optimizer';
+import { MAX_OPTIMIZATION_CANDIDATES, OptimizationRequestSchema, toValidationIssues, type CartItem, type DiscountCampaign } from './schema';
+
+const items: CartItem[] = [
+    { name: 'Jacket', price: 1000, category: 'Clothing', quantity: 1 }
+];
+
+describe('findBestCombination', () => {
+    it('should pick at most one campaign per category with the lowest final total', () => {
+        const candidates: DiscountCampaign[] = [
+            { category: 'Coupon', type: 'Percentage', percentage: 10 },
+            { category: 'Coupon', type: 'Fixed', amount: 120 },
+            { category: 'On Top', type: 'Fixed', customerPoints: 250 },
+            { category: 'On Top', type: 'Percentage', targetCategory: 'Clothing', percentage: 15 }
+        ];
+
+        const { best, combinationsEvaluated } = findBestCombination(items, candidates);
+
+        // Fixed 120 -> 880, then points capped at 20% of 880 (176) -> 704
+        // beats 10% -> 900 with 180 points -> 720 and fixed 120 with 15% of clothing -> 730
+        expect(best.candidateIndexes).toEqual([1, 2]);
+        expect(best.result.finalTotal).toBe(704);
+        expect(combinationsEvaluated).toBe(9); // (2 coupons + none) × (2 on top + none)
+    });
+
+    it('should account for the order in which campaigns are applied', () => {
+        const candidates: DiscountCampaign[] = [
+            { category: 'Coupon', type: 'Fixed', amount: 100 },
+            { category: 'Coupon', type: 'Percentage', percentage: 10 },
+            { category: 'On Top', type: 'Fixed', customerPoints: 500 }
+        ];
+
+        const { best, alternatives } = findBestCombination(items, candidates);
+
+        // Both coupons take 100 off, so both leave a 180 THB points cap: the tie goes to the first
+        expect(best.campaigns).toEqual([candidates[0]!, candidates[2]!]);
+        expect(best.result.finalTotal).toBe(720);
+        expect(alternatives[0]?.result.finalTotal).toBe(720);
+    });
+
+    it('should prefer fewer campaigns when they do not save anything', () => {
+        const candidates: DiscountCampaign[] = [
+            { category: 'On Top', type: 'Percentage', targetCategory: 'Electronics', percentage: 50 }
+        ];
+
+        const { best } = findBestCombination(items, candidates);
+
+        expect(best.campaigns).toEqual([]);
+        expect(best.result.finalTotal).toBe(1000);
+    });
+
+    it('should limit the number of runner-up combinations', () => {
+        const candidates: DiscountCampaign[] = [
+            { category: 'Coupon', type: 'Fixed', amount: 10 },
+            { category: 'Coupon', type: 'Fixed', amount: 20 },
+            { category: 'Seasonal', type: 'Special', everyXThb: 100, discountYThb: 5 }
+        ];
+
+        const { alternatives } = findBestCombination(items, candidates, { alternatives: 2 });
+
+        expect(alternatives).toHaveLength(2);
+        expect(alternatives[0]!.result.finalTotal).toBeLessThanOrEqual(alternatives[1]!.result.finalTotal);
+    });
+
+    it('should reject requests with more candidates than can be optimized', () => {
+        const candidate = { category: 'Coupon', type: 'Fixed', amount: 10 };
+
+        expect(OptimizationRequestSchema.safeParse({ items, candidates: Array(MAX_OPTIMIZATION_CANDIDATES).fill(candidate) }).success).toBe(true);
+
+        const result = OptimizationRequestSchema.safeParse({ items, candidates: Array(MAX_OPTIMIZATION_CANDIDATES + 1).fill(candidate) });
+        expect(toValidationIssues(result.error!)).toEqual([
+            { path: 'candidates', message: 'At most 12 candidate campaigns can be optimized at once' }
+        ]);
+    });
+});
@@ -0,0 +1,75 @@
+import { calculateDiscount } from "./discount";
+import { categoryLimit, checkStackingPolicy } from "./policy";
+import { CampaignCategory, type CalculationOptions, type CampaignCombination, type CartItem, type DiscountCampaign, type OptimizationResult } from "./schema";
+
+const DEFAULT_ALTERNATIVES = 3;
+
+export interface OptimizationOptions extends CalculationOptions {
+    // How many runner-up combinations to return
+    alternatives?: number;
+}
+
+/**
+ * Tries every combination of candidates the stacking policy allows and
+ * returns the one with the lowest finalTotal. Each combination goes through
+ * calculateDiscount, so ordering effects such as a percentage coupon shrinking
+ * the points cap are taken into account. Ties prefer fewer campaigns, so
+ * customers keep coupons that would not have saved them anything.
+ */
+export function findBestCombination(cartItems: CartItem[], candidates: DiscountCampaign[], options: OptimizationOptions = {}): OptimizationResult {
+    const { alternatives = DEFAULT_ALTERNATIVES, ...calculationOptions } = options;
+
+    const combinations = enumerateCombinations(candidates, options.currency).map((candidateIndexes): CampaignCombination => {
+        const campaigns = candidateIndexes.map(index => candidates[index]!);
+        return {
+            candidateIndexes,
+            campaigns,
+            result: calculateDiscount(cartItems, campaigns, calculationOptions)
+        };
+    });
+
+    combinations.sort((a, b) =>
+        a.result.finalTotal - b.result.finalTotal ||
+        a.campaigns.length - b.campaigns.length ||
+        compareIndexes(a.candidateIndexes, b.candidateIndexes));
+
+    const [best, ...rest] = combinations;
+    return {
+        best: best!, // The empty combination always exists
+        alternatives: rest.slice(0, Math.max(0, alternatives)),
+        combinationsEvaluated: combinations.length
+    };
+}
+
+/**
+ * Cartesian product over the categories of every subset within the category
+ * limit, where "no campaign" is also an option. Combinations breaking an
+ * exclusivity group are left out.
+ */
+function enumerateCombinations(candidates: DiscountCampaign[], currency?: string): number[][] {
+    let combinations: number[][] = [[]];
+    for (const category of CampaignCategory.options) {
+        const indexes = candidates.flatMap((campaign, index) => campaign.category === category ? [index] : []);
+        const subsets = subsetsUpTo(indexes, categoryLimit(category));
+        combinations = combinations.flatMap(combination => subsets.map(subset => [...combination, ...subset]));
+    }
+    return combinations.filter(combination => checkStackingPolicy(combination.map(index => candidates[index]!), currency).length === 0);
+}
+
+// Subsets in index order with at most `size` elements, the empty one first
+function subsetsUpTo(indexes: number[], size: number): number[][] {
+    if (size === 0 || indexes.length === 0) return [[]];
+    const [first, ...rest] = indexes;
+    return [
+        ...subsetsUpTo(rest, size),
+        ...subsetsUpTo(rest, size - 1).map(subset => [first!, ...subset])
+    ];
+}
+
+function compareIndexes(a: number[], b: number[]): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const difference = a[i]! - b[i]!;
+        if (difference !== 0) return difference;
+    }
+    return a.length - b.length;
+}
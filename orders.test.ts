@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test';
+import { calculateDiscount } from './discount';
+import { buildDiscountReport, openOrderHistory, recordOrder, renderReportCsv } from './orders';
+import type { Cart } from './schema';
+
+function record(db: ReturnType<typeof openOrderHistory>, cart: Cart, date: string): number {
+    return recordOrder(db, cart, calculateDiscount(cart.items, cart.discounts, { currency: cart.currency }), new Date(`${date}T10:00:00Z`));
+}
+
+const couponCart: Cart = {
+    items: [
+        { name: 'Jacket', price: 1000, category: 'Clothing', quantity: 1 },
+        { name: 'Watch', price: 1000, category: 'Accessories', quantity: 1 }
+    ],
+    discounts: [{ category: 'Coupon', type: 'Percentage', percentage: 10 }]
+};
+
+const seasonalCart: Cart = {
+    items: [{ name: 'Jacket', price: 1000, category: 'Clothing', quantity: 1 }],
+    discounts: [
+        { category: 'Coupon', type: 'Fixed', amount: 100 },
+        { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40 }
+    ]
+};
+
+describe('Order history', () => {
+    it('should aggregate orders per campaign category, campaign type and item category', () => {
+        const db = openOrderHistory(':memory:');
+        expect(record(db, couponCart, '2026-03-01')).toBe(1);
+        record(db, seasonalCart, '2026-03-02');
+
+        const { rows } = buildDiscountReport(db);
+
+        // 200 + (100 + 3 × 40) off 3000
+        expect(rows.find(row => row.dimension === 'total')).toEqual({
+            dimension: 'total', key: 'All orders', currency: 'THB', orders: 2, gross: 3000, totalDiscount: 420, averageDiscountRate: 14
+        });
+        expect(rows.filter(row => row.dimension === 'campaignCategory').map(({ key, orders, gross, totalDiscount }) => ({ key, orders, gross, totalDiscount }))).toEqual([
+            { key: 'Coupon', orders: 2, gross: 3000, totalDiscount: 300 },
+            { key: 'Seasonal', orders: 1, gross: 1000, totalDiscount: 120 }
+        ]);
+        expect(rows.filter(row => row.dimension === 'campaignType').map(row => row.key)).toEqual(['Coupon / Fixed', 'Coupon / Percentage', 'Seasonal / Special']);
+        expect(rows.filter(row => row.dimension === 'itemCategory').map(({ key, orders, gross, totalDiscount, averageDiscountRate }) => ({ key, orders, gross, totalDiscount, averageDiscountRate }))).toEqual([
+            { key: 'Accessories', orders: 1, gross: 1000, totalDiscount: 100, averageDiscountRate: 10 },
+            { key: 'Clothing', orders: 2, gross: 2000, totalDiscount: 320, averageDiscountRate: 16 }
+        ]);
+    });
+
+    it('should only count orders within the date range and keep currencies apart', () => {
+        const db = openOrderHistory(':memory:');
+        record(db, couponCart, '2026-03-01');
+        record(db, seasonalCart, '2026-03-02');
+        record(db, { ...couponCart, currency: 'JPY' }, '2026-03-02');
+        record(db, seasonalCart, '2026-03-03');
+
+        const report = buildDiscountReport(db, { from: '2026-03-02', to: '2026-03-02' });
+
+        expect(report.rows.filter(row => row.dimension === 'total').map(({ currency, orders, totalDiscount }) => ({ currency, orders, totalDiscount }))).toEqual([
+            { currency: 'JPY', orders: 1, totalDiscount: 200 },
+            { currency: 'THB', orders: 1, totalDiscount: 220 }
+        ]);
+        expect(() => buildDiscountReport(db, { from: '2026-03-03', to: '2026-03-01' })).toThrow('From must not be after to');
+    });
+
+    it('should export the report as CSV', () => {
+        const db = openOrderHistory(':memory:');
+        record(db, couponCart, '2026-03-01');
+
+        const lines = renderReportCsv(buildDiscountReport(db)).split('\n');
+
+        expect(lines[0]).toBe('dimension,key,currency,orders,gross,total_discount,average_discount_rate');
+        expect(lines).toContain('total,All orders,THB,1,2000.00,200.00,10.00');
+        expect(lines).toContain('campaignType,Coupon / Percentage,THB,1,2000.00,200.00,10.00');
+    });
+});
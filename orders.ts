@@ -0,0 +1,174 @@
+import type { Database } from "bun:sqlite";
+import { z } from "zod/v4";
+import { openDatabase } from "./database";
+import { DEFAULT_CURRENCY, fromMinorUnits, minorUnitDigits, toMinorUnits } from "./money";
+import type { Cart, DiscountResult } from "./schema";
+
+// Report filter: calendar dates in UTC, both ends included
+export const ReportRangeSchema = z.object({
+    from: z.iso.date("From must be a date such as 2026-01-31").optional(),
+    to: z.iso.date("To must be a date such as 2026-01-31").optional()
+}).refine(range => range.from === undefined || range.to === undefined || range.from <= range.to, {
+    message: "From must not be after to",
+    path: ["to"]
+});
+
+export const ReportDimension = z.enum(["total", "campaignCategory", "campaignType", "itemCategory"]);
+
+export type ReportRange = z.infer<typeof ReportRangeSchema>;
+export type ReportDimension = z.infer<typeof ReportDimension>;
+
+/**
+ * One aggregate of the report. For campaign rows gross is the original total
+ * of the orders the campaign gave a discount on; for item rows it is the
+ * line totals of the category.
+ */
+export interface ReportRow {
+    dimension: ReportDimension;
+    // "All orders", a campaign category, "Coupon / Percentage" or an item category
+    key: string;
+    currency: string;
+    orders: number;
+    gross: number;
+    totalDiscount: number;
+    // totalDiscount / gross in percent, two decimals
+    averageDiscountRate: number;
+}
+
+export interface DiscountReport {
+    range: ReportRange;
+    rows: ReportRow[];
+}
+
+// Amounts are stored in minor units of the order's currency so sums stay exact
+export function openOrderHistory(path: string): Database {
+    const db = openDatabase(path);
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS orders (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            created_at TEXT NOT NULL,
+            currency TEXT NOT NULL,
+            original_total INTEGER NOT NULL,
+            total_discount INTEGER NOT NULL,
+            final_total INTEGER NOT NULL,
+            cart TEXT NOT NULL,
+            result TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS orders_created_at ON orders (created_at);
+        CREATE TABLE IF NOT EXISTS order_campaigns (
+            order_id INTEGER NOT NULL REFERENCES orders(id),
+            category TEXT NOT NULL,
+            type TEXT NOT NULL,
+            discount INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS order_items (
+            order_id INTEGER NOT NULL REFERENCES orders(id),
+            category TEXT NOT NULL,
+            gross INTEGER NOT NULL,
+            discount INTEGER NOT NULL
+        );
+    `);
+    return db;
+}
+
+// Stores the cart and its result; returns the order id
+export function recordOrder(db: Database, cart: Cart, result: DiscountResult, now: Date = new Date()): number {
+    const currency = result.currency ?? DEFAULT_CURRENCY;
+    const units = (amount: number) => toMinorUnits(amount, currency);
+
+    return db.transaction(() => {
+        const { lastInsertRowid } = db.prepare(`
+            INSERT INTO orders (created_at, currency, original_total, total_discount, final_total, cart, result)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(now.toISOString(), currency, units(result.originalTotal), units(result.totalDiscount), units(result.finalTotal), JSON.stringify(cart), JSON.stringify(result));
+        const orderId = Number(lastInsertRowid);
+
+        const insertCampaign = db.prepare("INSERT INTO order_campaigns (order_id, category, type, discount) VALUES (?, ?, ?, ?)");
+        result.appliedCampaigns.forEach(campaign => insertCampaign.run(orderId, campaign.category, campaign.type, units(campaign.discountAmount)));
+
+        const insertItem = db.prepare("INSERT INTO order_items (order_id, category, gross, discount) VALUES (?, ?, ?, ?)");
+        result.itemAllocations.forEach(item => insertItem.run(orderId, item.category, units(item.lineTotal), units(item.totalDiscount)));
+
+        return orderId;
+    })();
+}
+
+interface AggregateRow {
+    key: string;
+    currency: string;
+    orders: number;
+    gross: number;
+    total_discount: number;
+}
+
+/**
+ * Aggregates the recorded orders in the range: all orders, then per campaign
+ * category, per campaign type and per item category, each split by currency.
+ * Campaigns that gave no discount are left out of the campaign rows.
+ */
+export function buildDiscountReport(db: Database, range: ReportRange = {}): DiscountReport {
+    const { from, to } = ReportRangeSchema.parse(range);
+    const filter = "o.created_at >= ? AND o.created_at < ?";
+    // ISO timestamps sort as text, so the day after `to` is an exclusive upper bound
+    const bounds = [from ?? "0000-01-01", to ? nextDay(to) : "9999-12-31"];
+
+    const aggregate = (dimension: ReportDimension, sql: string): ReportRow[] =>
+        db.query<AggregateRow, string[]>(sql).all(...bounds).map(row => toReportRow(dimension, row));
+
+    const rows = [
+        ...aggregate("total", `
+            SELECT 'All orders' AS key, o.currency, COUNT(*) AS orders, SUM(o.original_total) AS gross, SUM(o.total_discount) AS total_discount
+            FROM orders o WHERE ${filter} GROUP BY o.currency ORDER BY o.currency
+        `),
+        ...aggregate("campaignCategory", `
+            SELECT c.category AS key, o.currency, COUNT(DISTINCT o.id) AS orders, SUM(o.original_total) AS gross, SUM(c.discount) AS total_discount
+            FROM (SELECT order_id, category, SUM(discount) AS discount FROM order_campaigns WHERE discount > 0 GROUP BY order_id, category) c
+            JOIN orders o ON o.id = c.order_id WHERE ${filter} GROUP BY c.category, o.currency ORDER BY c.category, o.currency
+        `),
+        ...aggregate("campaignType", `
+            SELECT c.category || ' / ' || c.type AS key, o.currency, COUNT(DISTINCT o.id) AS orders, SUM(o.original_total) AS gross, SUM(c.discount) AS total_discount
+            FROM (SELECT order_id, category, type, SUM(discount) AS discount FROM order_campaigns WHERE discount > 0 GROUP BY order_id, category, type) c
+            JOIN orders o ON o.id = c.order_id WHERE ${filter} GROUP BY key, o.currency ORDER BY key, o.currency
+        `),
+        ...aggregate("itemCategory", `
+            SELECT i.category AS key, o.currency, COUNT(DISTINCT o.id) AS orders, SUM(i.gross) AS gross, SUM(i.discount) AS total_discount
+            FROM order_items i JOIN orders o ON o.id = i.order_id WHERE ${filter} GROUP BY i.category, o.currency ORDER BY i.category, o.currency
+        `)
+    ];
+
+    return { range: { from, to }, rows };
+}
+
+const REPORT_COLUMNS = ["dimension", "key", "currency", "orders", "gross", "total_discount", "average_discount_rate"];
+
+// One line per report row; amounts have the decimals of their currency but no currency code
+export function renderReportCsv(report: DiscountReport): string {
+    const rows = report.rows.map(row => {
+        const digits = minorUnitDigits(row.currency);
+        return [row.dimension, row.key, row.currency, row.orders, row.gross.toFixed(digits), row.totalDiscount.toFixed(digits), row.averageDiscountRate.toFixed(2)];
+    });
+    return [REPORT_COLUMNS, ...rows].map(row => row.map(escapeCsv).join(",")).join("\n");
+}
+
+function toReportRow(dimension: ReportDimension, row: AggregateRow): ReportRow {
+    return {
+        dimension,
+        key: row.key,
+        currency: row.currency,
+        orders: row.orders,
+        gross: fromMinorUnits(row.gross, row.currency),
+        totalDiscount: fromMinorUnits(row.total_discount, row.currency),
+        averageDiscountRate: row.gross === 0 ? 0 : Math.round((row.total_discount / row.gross) * 10000) / 100
+    };
+}
+
+function nextDay(date: string): string {
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() + 1);
+    return day.toISOString().slice(0, 10);
+}
+
+function escapeCsv(value: string | number): string {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
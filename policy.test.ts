@@ -0,0 +1,106 @@
+import { afterEach, describe, it, expect } from 'bun:test';
+import { calculateDiscount } from './discount';
+import { findBestCombination } from './optimizer';
+import { checkStackingPolicy, setStackingPolicy, StackingPolicyError } from './policy';
+import { CartSchema, toValidationIssues, type CartItem, type DiscountCampaign } from './schema';
+
+const items: CartItem[] = [
+    { name: 'Jacket', price: 1000, category: 'Clothing', quantity: 1 }
+];
+
+const staffPolicy = {
+    exclusivityGroups: { staff: { excludes: [{ category: 'Seasonal' }] } }
+};
+
+describe('Stacking policy', () => {
+    afterEach(() => setStackingPolicy(undefined));
+
+    it('should allow one campaign per category by default', () => {
+        const parsed = CartSchema.safeParse({
+            items,
+            discounts: [
+                { category: 'Coupon', type: 'Percentage', percentage: 10 },
+                { category: 'Coupon', type: 'Fixed', amount: 100 }
+            ]
+        });
+
+        expect(parsed.success).toBe(false);
+        expect(parsed.error && toValidationIssues(parsed.error)).toEqual([
+            { path: 'discounts.1', message: 'At most one Coupon campaign allowed: Fixed Amount Coupon (100.00 THB) is one too many' }
+        ]);
+    });
+
+    it('should stack campaigns up to the category limit', () => {
+        setStackingPolicy({ maxPerCategory: { 'On Top': 2 } });
+        const campaigns: DiscountCampaign[] = [
+            { category: 'On Top', type: 'Percentage', targetCategory: 'Clothing', percentage: 10 },
+            { category: 'On Top', type: 'Fixed', customerPoints: 100 }
+        ];
+
+        // 10% of clothing -> 900, then 100 points (below the 180 cap) -> 800
+        expect(calculateDiscount(items, campaigns).finalTotal).toBe(800);
+        expect(checkStackingPolicy([...campaigns, campaigns[0]!])).toMatchObject([{ code: 'CATEGORY_LIMIT', index: 2 }]);
+    });
+
+    it('should keep campaigns of an exclusivity group away from the campaigns it excludes', () => {
+        setStackingPolicy(staffPolicy);
+        const campaigns: DiscountCampaign[] = [
+            { category: 'Coupon', type: 'Fixed', amount: 100, group: 'staff' },
+            { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40 }
+        ];
+
+        const parsed = CartSchema.safeParse({ items, discounts: campaigns });
+        expect(parsed.error && toValidationIssues(parsed.error)).toEqual([{
+            path: 'discounts.1',
+            message: 'Seasonal (40.00 THB per 300.00 THB) cannot be combined with Fixed Amount Coupon (100.00 THB) (exclusivity group "staff")'
+        }]);
+
+        expect(() => calculateDiscount(items, campaigns)).toThrow(StackingPolicyError);
+        // Without the tag the coupon stacks as usual
+        expect(calculateDiscount(items, [{ ...campaigns[0]!, group: undefined }, campaigns[1]!]).finalTotal).toBe(780);
+    });
+
+    it('should limit how many campaigns of a group combine', () => {
+        setStackingPolicy({ maxPerCategory: { Coupon: 2 }, exclusivityGroups: { partner: { max: 1 } } });
+
+        const violations = checkStackingPolicy([
+            { category: 'Coupon', type: 'Percentage', percentage: 10, group: 'partner' },
+            { category: 'Coupon', type: 'Fixed', amount: 100, group: 'partner' }
+        ]);
+
+        expect(violations).toEqual([{
+            code: 'GROUP_LIMIT',
+            index: 1,
+            message: 'At most one campaign of group "partner" allowed: Fixed Amount Coupon (100.00 THB) is one too many'
+        }]);
+    });
+
+    it('should run categories in the order of the policy stages', () => {
+        setStackingPolicy({ stages: { Seasonal: 50 } });
+
+        const result = calculateDiscount(items, [
+            { category: 'Coupon', type: 'Percentage', percentage: 10 },
+            { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40 }
+        ], { trace: true });
+
+        // Seasonal on 1000 -> 880, then 10% -> 792 instead of 900 -> 780
+        expect(result.appliedCampaigns.map(campaign => campaign.category)).toEqual(['Seasonal', 'Coupon']);
+        expect(result.trace?.map(step => step.stage)).toEqual([50, 100]);
+        expect(result.finalTotal).toBe(792);
+    });
+
+    it('should only let the optimizer try combinations the policy allows', () => {
+        setStackingPolicy(staffPolicy);
+        const candidates: DiscountCampaign[] = [
+            { category: 'Coupon', type: 'Fixed', amount: 200, group: 'staff' },
+            { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 100 }
+        ];
+
+        const { best, combinationsEvaluated } = findBestCombination(items, candidates);
+
+        // Together they would reach 600, but the staff coupon excludes seasonal offers
+        expect(best.candidateIndexes).toEqual([1]);
+        expect(best.result.finalTotal).toBe(700);
+        expect(combinationsEvaluated).toBe(3);
+    });
+});
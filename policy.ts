@@ -0,0 +1,176 @@
+import { z } from 'zod/v4';
+import { CampaignCategory, describeCampaign, getCampaignHandler, type DiscountCampaign } from './campaigns';
+
+// Picks campaigns by category, type and/or exclusivity group; every given field has to match
+export const CampaignMatcherSchema = z.object({
+    category: CampaignCategory.optional(),
+    type: z.string().min(1).optional(),
+    group: z.string().min(1).optional()
+}).refine(matcher => matcher.category !== undefined || matcher.type !== undefined || matcher.group !== undefined, {
+    message: 'Matcher needs a category, type or group'
+});
+
+// Rules for the campaigns tagged with the group's name
+export const ExclusivityGroupSchema = z.object({
+    // How many campaigns of the group may combine; unlimited when left out
+    max: z.number().int().min(0, 'Group maximum must be non-negative').optional(),
+    // Campaigns of the group never combine with campaigns matching any of these
+    excludes: z.array(CampaignMatcherSchema).optional().default([])
+});
+
+/**
+ * Which campaigns may be combined in one cart and in which order they run.
+ * Categories missing from maxPerCategory allow one campaign, so the default
+ * policy is the long-standing one campaign per category rule.
+ */
+export const StackingPolicySchema = z.object({
+    maxPerCategory: z.partialRecord(CampaignCategory, z.number().int().min(0, 'Category limit must be non-negative')).optional().default({}),
+    // Keyed by the group campaigns are tagged with, e.g. "staff"
+    exclusivityGroups: z.record(z.string().min(1), ExclusivityGroupSchema).optional().default({}),
+    // Replaces the registered stage of every campaign in the category; lower stages run first
+    stages: z.partialRecord(CampaignCategory, z.number().int()).optional().default({})
+});
+
+export const PolicyViolationCode = z.enum(['CATEGORY_LIMIT', 'GROUP_LIMIT', 'GROUP_EXCLUSION']);
+
+export type CampaignMatcher = z.infer<typeof CampaignMatcherSchema>;
+export type ExclusivityGroup = z.infer<typeof ExclusivityGroupSchema>;
+export type StackingPolicy = z.infer<typeof StackingPolicySchema>;
+export type PolicyViolationCode = z.infer<typeof PolicyViolationCode>;
+
+export interface PolicyViolation {
+    code: PolicyViolationCode;
+    // Position of the offending campaign in the list that was checked
+    index: number;
+    message: string;
+}
+
+const DEFAULT_CATEGORY_LIMIT = 1;
+
+// Used until another policy is loaded
+export const DEFAULT_STACKING_POLICY: StackingPolicy = {
+    maxPerCategory: {},
+    exclusivityGroups: {},
+    stages: {}
+};
+
+let activePolicy = DEFAULT_STACKING_POLICY;
+
+export function getStackingPolicy(): StackingPolicy {
+    return activePolicy;
+}
+
+// Replaces the policy carts are validated and calculated with; undefined restores the default
+export function setStackingPolicy(policy: unknown | undefined): StackingPolicy {
+    activePolicy = policy === undefined ? DEFAULT_STACKING_POLICY : StackingPolicySchema.parse(policy);
+    return activePolicy;
+}
+
+export async function loadStackingPolicy(path: string): Promise<StackingPolicy> {
+    return setStackingPolicy(await Bun.file(path).json());
+}
+
+export function matchesCampaign(matcher: CampaignMatcher, campaign: DiscountCampaign): boolean {
+    return (matcher.category === undefined || matcher.category === campaign.category)
+        && (matcher.type === undefined || matcher.type === campaign.type)
+        && (matcher.group === undefined || matcher.group === campaign.group);
+}
+
+export function campaignStage(campaign: DiscountCampaign, policy: StackingPolicy = activePolicy): number {
+    return policy.stages[campaign.category] ?? getCampaignHandler(campaign).stage;
+}
+
+/**
+ * Positions of the campaigns in the order they are applied; campaigns sharing
+ * a stage keep their input order. Shipping campaigns come after every item
+ * campaign whatever their stage, since the shipping fee depends on the
+ * discounted item total.
+ */
+export function stageOrder(campaigns: DiscountCampaign[], policy: StackingPolicy = activePolicy): number[] {
+    return campaigns
+        .map((campaign, index) => ({ index, shipping: campaign.category === 'Shipping' ? 1 : 0, stage: campaignStage(campaign, policy) }))
+        .sort((a, b) => a.shipping - b.shipping || a.stage - b.stage)
+        .map(({ index }) => index);
+}
+
+export function categoryLimit(category: CampaignCategory, policy: StackingPolicy = activePolicy): number {
+    return policy.maxPerCategory[category] ?? DEFAULT_CATEGORY_LIMIT;
+}
+
+/**
+ * Lists every way the campaigns break the policy. Campaigns are taken in
+ * input order: the ones past a category or group limit are reported, and of
+ * two campaigns that exclude each other the later one is.
+ */
+export function checkStackingPolicy(campaigns: DiscountCampaign[], currency?: string, policy: StackingPolicy = activePolicy): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const describe = (campaign: DiscountCampaign) => describeCampaign(campaign, currency);
+
+    const perCategory = new Map<string, number>();
+    campaigns.forEach((campaign, index) => {
+        const count = (perCategory.get(campaign.category) ?? 0) + 1;
+        perCategory.set(campaign.category, count);
+        const limit = categoryLimit(campaign.category, policy);
+        if (count > limit) {
+            const message = limit === 0
+                ? `${campaign.category} campaigns are not allowed: ${describe(campaign)}`
+                : `At most ${countOf(limit, `${campaign.category} campaign`)} allowed: ${describe(campaign)} is one too many`;
+            violations.push({ code: 'CATEGORY_LIMIT', index, message });
+        }
+    });
+
+    const perGroup = new Map<string, number>();
+    campaigns.forEach((campaign, index) => {
+        const group = campaign.group === undefined ? undefined : policy.exclusivityGroups[campaign.group];
+        if (!group) return;
+        const count = (perGroup.get(campaign.group!) ?? 0) + 1;
+        perGroup.set(campaign.group!, count);
+        if (group.max !== undefined && count > group.max) {
+            violations.push({
+                code: 'GROUP_LIMIT',
+                index,
+                message: `At most ${countOf(group.max, 'campaign')} of group "${campaign.group}" allowed: ${describe(campaign)} is one too many`
+            });
+        }
+    });
+
+    campaigns.forEach((campaign, index) => {
+        const earlier = campaigns.slice(0, index).find(other => exclusionGroup(other, campaign, policy) !== undefined);
+        if (earlier) {
+            violations.push({
+                code: 'GROUP_EXCLUSION',
+                index,
+                message: `${describe(campaign)} cannot be combined with ${describe(earlier)} (exclusivity group "${exclusionGroup(earlier, campaign, policy)}")`
+            });
+        }
+    });
+
+    return violations.sort((a, b) => a.index - b.index);
+}
+
+export class StackingPolicyError extends Error {
+    constructor(readonly violations: PolicyViolation[]) {
+        super(`Campaigns break the stacking policy: ${violations.map(violation => violation.message).join('; ')}`);
+        this.name = 'StackingPolicyError';
+    }
+}
+
+export function assertStackingPolicy(campaigns: DiscountCampaign[], currency?: string, policy: StackingPolicy = activePolicy): void {
+    const violations = checkStackingPolicy(campaigns, currency, policy);
+    if (violations.length > 0) {
+        throw new StackingPolicyError(violations);
+    }
+}
+
+// Group of either campaign that excludes the other one, if any
+function exclusionGroup(a: DiscountCampaign, b: DiscountCampaign, policy: StackingPolicy): string | undefined {
+    const excludedBy = (campaign: DiscountCampaign, other: DiscountCampaign) => campaign.group !== undefined
+        && (policy.exclusivityGroups[campaign.group]?.excludes ?? []).some(matcher => matchesCampaign(matcher, other));
+    if (excludedBy(a, b)) return a.group;
+    if (excludedBy(b, a)) return b.group;
+    return undefined;
+}
+
+function countOf(count: number, noun: string): string {
+    return count === 1 ? `one ${noun}` : `${count} ${noun}s`;
+}
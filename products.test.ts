@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, it, expect } from 'bun:test';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { calculateDiscount } from './discount';
+import { getProduct, loadProductCatalog, setProductCatalog } from './products';
+import { CartSchema, toValidationIssues } from './schema';
+
+const products = [
+    { sku: 'TS-001', name: 'T-Shirt', price: 350, category: 'Clothing' },
+    { sku: 'PH-001', name: 'yPhone', price: 9990, category: 'Electronics' }
+];
+
+describe('Product catalog', () => {
+    beforeEach(() => setProductCatalog(products));
+    afterEach(() => setProductCatalog(undefined));
+
+    it('should resolve name, price and category from the SKU', () => {
+        const cart = CartSchema.parse({ items: [{ sku: 'PH-001' }, { sku: 'TS-001', quantity: 2 }], discounts: [] });
+
+        expect(cart.items).toEqual([
+            { sku: 'PH-001', name: 'yPhone', price: 9990, category: 'Electronics', quantity: 1 },
+            { sku: 'TS-001', name: 'T-Shirt', price: 350, category: 'Clothing', quantity: 2 }
+        ]);
+        expect(calculateDiscount(cart.items, cart.discounts).originalTotal).toBe(10690);
+    });
+
+    it('should report unknown SKUs and price mismatches', () => {
+        const result = CartSchema.safeParse({
+            items: [{ sku: 'PH-001', price: 1 }, { sku: 'NOPE' }, { sku: 'TS-001', category: 'Accessories' }],
+            discounts: []
+        });
+
+        expect(result.success).toBe(false);
+        expect(toValidationIssues(result.error!)).toEqual([
+            { path: 'items.0.price', message: 'Price 1 does not match the catalog price 9990 for SKU PH-001' },
+            { path: 'items.1.sku', message: 'Unknown SKU: NOPE' },
+            { path: 'items.2.category', message: 'Category Accessories does not match the catalog category Clothing for SKU TS-001' }
+        ]);
+    });
+
+    it('should reject items without a SKU once a catalog is loaded', () => {
+        const result = CartSchema.safeParse({ items: [{ sku: 'TS-001' }, { name: 'yPhone', price: 1, category: 'Electronics' }], discounts: [] });
+
+        expect(toValidationIssues(result.error!)).toEqual([
+            { path: 'items.1.sku', message: 'SKU is required when a product catalog is loaded' }
+        ]);
+    });
+
+    it('should still accept fully described items without a catalog', () => {
+        setProductCatalog(undefined);
+
+        const result = CartSchema.safeParse({ items: [{ name: 'Watch', price: 850, category: 'Accessories' }, { name: 'Hat' }], discounts: [] });
+
+        expect(toValidationIssues(result.error!)).toEqual([
+            { path: 'items.1.price', message: 'Price is required' },
+            { path: 'items.1.category', message: 'Category is required' }
+        ]);
+    });
+
+    it('should reject SKUs without a catalog', () => {
+        setProductCatalog(undefined);
+
+        const result = CartSchema.safeParse({ items: [{ sku: 'TS-001' }], discounts: [] });
+
+        expect(result.error?.issues[0]?.message).toBe('Cannot resolve SKU TS-001: no product catalog loaded');
+    });
+
+    it('should load a CSV catalog with quoted fields', async () => {
+        const path = join(mkdtempSync(join(tmpdir(), 'products-')), 'products.csv');
+        writeFileSync(path, 'sku,name,price,category\r\nPH-002,"yPhone 15, ""Pro""",12990,Electronics\r\n');
+
+        await loadProductCatalog(path);
+
+        expect(getProduct('PH-002')).toEqual({ sku: 'PH-002', name: 'yPhone 15, "Pro"', price: 12990, category: 'Electronics' });
+        expect(getProduct('TS-001')).toBeUndefined();
+    });
+
+    it('should reject catalogs with duplicate SKUs', () => {
+        expect(() => setProductCatalog([...products, products[0]])).toThrow('Duplicate SKU: TS-001');
+    });
+});
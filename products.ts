@@ -0,0 +1,111 @@
+import { z } from 'zod/v4';
+import { ItemCategory } from './categories';
+
+// Catalog entry a cart item can reference by SKU instead of sending its own price
+export const ProductSchema = z.object({
+    sku: z.string().min(1, 'SKU is required'),
+    name: z.string().min(1, 'Product name is required'),
+    price: z.number().min(0, 'Price must be non-negative'),
+    category: ItemCategory
+});
+
+export const ProductCatalogSchema = z.array(ProductSchema).superRefine((products, ctx) => {
+    const seen = new Set<string>();
+    products.forEach((product, index) => {
+        if (seen.has(product.sku)) {
+            ctx.addIssue({ code: 'custom', message: `Duplicate SKU: ${product.sku}`, path: [index, 'sku'] });
+        }
+        seen.add(product.sku);
+    });
+});
+
+export type Product = z.infer<typeof ProductSchema>;
+
+// No catalog by default: carts then have to carry name, price and category
+let activeCatalog: Map<string, Product> | undefined;
+
+export function getProduct(sku: string): Product | undefined {
+    return activeCatalog?.get(sku);
+}
+
+export function hasProductCatalog(): boolean {
+    return activeCatalog !== undefined;
+}
+
+// Replaces the catalog SKUs are resolved against; undefined removes it
+export function setProductCatalog(products: unknown | undefined): void {
+    activeCatalog = products === undefined
+        ? undefined
+        : new Map(ProductCatalogSchema.parse(products).map(product => [product.sku, product]));
+}
+
+/**
+ * Loads the catalog from a .csv file with a sku,name,price,category header,
+ * or from JSON holding either an array of products or { "products": [...] }.
+ */
+export async function loadProductCatalog(path: string): Promise<void> {
+    const file = Bun.file(path);
+    if (path.toLowerCase().endsWith('.csv')) {
+        setProductCatalog(parseProductCsv(await file.text()));
+        return;
+    }
+
+    const data = await file.json();
+    setProductCatalog(Array.isArray(data) ? data : data?.products);
+}
+
+function parseProductCsv(text: string): Record<string, unknown>[] {
+    const [header = [], ...rows] = parseCsv(text);
+    const columns = header.map(column => column.trim().toLowerCase());
+
+    return rows.map(row => {
+        const product: Record<string, unknown> = Object.fromEntries(columns.map((column, index) => [column, row[index]?.trim()]));
+        // Leave blanks and non-numbers for the schema to report
+        const price = Number(product.price);
+        if (product.price !== '' && product.price !== undefined && !Number.isNaN(price)) {
+            product.price = price;
+        }
+        return product;
+    });
+}
+
+// RFC 4180 style: quoted fields may contain commas, newlines and "" escapes
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
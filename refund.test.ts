@@ -0,0 +1,117 @@
+import { afterEach, describe, it, expect } from 'bun:test';
+import { calculateDiscount } from './discount';
+import { setStackingPolicy } from './policy';
+import { calculateRefund } from './refund';
+import { RefundRequestSchema, type Cart } from './schema';
+
+const cart: Cart = {
+    items: [
+        { name: 'T-Shirt', price: 350, category: 'Clothing', quantity: 1 },
+        { name: 'Pants', price: 490, category: 'Clothing', quantity: 2 },
+        { name: 'Watch', price: 850, category: 'Accessories', quantity: 1 }
+    ],
+    discounts: [
+        { category: 'Seasonal', type: 'Special', everyXThb: 1000, discountYThb: 100 }
+    ]
+};
+
+describe('calculateRefund', () => {
+    afterEach(() => setStackingPolicy(undefined));
+
+    it('should claw back a seasonal threshold the remaining order no longer reaches', () => {
+        const original = calculateDiscount(cart.items, cart.discounts);
+
+        const refund = calculateRefund(cart, [{ name: 'Watch', quantity: 1 }], original);
+
+        // 2180 -> 1980 paid; 1330 left -> 1230, so 750 back
+        expect(original.finalTotal).toBe(1980);
+        expect(refund.remainingResult.finalTotal).toBe(1230);
+        expect(refund.refundAmount).toBe(750);
+        // The watch carried 77.98 of the 200 discount, so 772.02 was paid for it
+        expect(refund.returnedItems).toEqual([{ name: 'Watch', quantity: 1, grossAmount: 850, paidAmount: 772.02 }]);
+        expect(refund.clawback).toBe(22.02);
+        expect(refund.campaignAdjustments).toEqual([{
+            category: 'Seasonal',
+            type: 'Special',
+            description: 'Seasonal (100.00 THB per 1,000.00 THB)',
+            originalDiscount: 200,
+            remainingDiscount: 100,
+            clawback: 22.02
+        }]);
+    });
+
+    it('should refund the paid amount when no discount is lost', () => {
+        const simple: Cart = {
+            items: cart.items,
+            discounts: [{ category: 'Coupon', type: 'Percentage', percentage: 10 }]
+        };
+
+        const refund = calculateRefund(simple, [{ name: 'Pants', quantity: 1 }]);
+
+        expect(refund.refundAmount).toBe(441);
+        expect(refund.returnedPaidAmount).toBe(441);
+        expect(refund.clawback).toBe(0);
+    });
+
+    it('should refund everything when the whole order is returned', () => {
+        const refund = calculateRefund(cart, [
+            { name: 'T-Shirt', quantity: 1 },
+            { name: 'Pants', quantity: 2 },
+            { name: 'Watch', quantity: 1 }
+        ]);
+
+        expect(refund.refundAmount).toBe(1980);
+        expect(refund.clawback).toBe(0);
+    });
+
+    it('should refund the shipping when the whole order is returned', () => {
+        const shipped: Cart = { ...cart, shipping: { method: 'flat', fee: 60 } };
+
+        const refund = calculateRefund(shipped, [
+            { name: 'T-Shirt', quantity: 1 },
+            { name: 'Pants', quantity: 2 },
+            { name: 'Watch', quantity: 1 }
+        ]);
+
+        expect(refund.remainingResult.finalTotal).toBe(0);
+        expect(refund.refundAmount).toBe(2040);
+        expect(refund.shippingRefund).toBe(60);
+        expect(refund.clawback).toBe(0);
+    });
+
+    it('should recalculate the original order with the options', () => {
+        const refund = calculateRefund(cart, [{ name: 'Watch', quantity: 1 }], undefined, { rounding: 'cash', tax: { rate: 7, pricesIncludeTax: false, exemptCategories: [] } });
+
+        // 1980 + 7% VAT was paid; 1230 + 7% VAT is left
+        expect(refund.refundAmount).toBe(802.5);
+    });
+
+    it('should tell campaigns of the same category and type apart', () => {
+        setStackingPolicy({ maxPerCategory: { 'On Top': 2 } });
+        const twoOnTop: Cart = {
+            items: [
+                { name: 'T-Shirt', price: 100, category: 'Clothing', quantity: 1 },
+                { name: 'Watch', price: 100, category: 'Accessories', quantity: 1 }
+            ],
+            discounts: [
+                { category: 'On Top', type: 'Percentage', targetCategory: 'Clothing', percentage: 50 },
+                { category: 'On Top', type: 'Percentage', targetCategory: 'Accessories', percentage: 10 }
+            ]
+        };
+
+        const refund = calculateRefund(twoOnTop, [{ name: 'Watch', quantity: 1 }]);
+
+        expect(refund.refundAmount).toBe(90);
+        expect(refund.campaignAdjustments.map(campaign => campaign.clawback)).toEqual([0, 0]);
+    });
+
+    it('should reject returns that were not part of the order', () => {
+        const parsed = RefundRequestSchema.safeParse({
+            cart,
+            returns: [{ name: 'Hat' }, { name: 'Pants', quantity: 3 }]
+        });
+
+        expect(parsed.success).toBe(false);
+        expect(parsed.error?.issues.map(issue => issue.path.join('.'))).toEqual(['returns.0.name', 'returns.1.quantity']);
+    });
+});
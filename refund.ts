@@ -0,0 +1,123 @@
+import { calculateDiscount } from "./discount";
+import { DEFAULT_CURRENCY, fromMinorUnits, toMinorUnits } from "./money";
+import type { CalculationOptions, Cart, CartItem, DiscountResult, ItemAllocation, RefundResult, ReturnedItem, ReturnedLine } from "./schema";
+
+interface ReturnedUnits {
+    line: number;
+    quantity: number;
+}
+
+/**
+ * Works out the refund for returning part of a discounted order. The
+ * remaining items are recalculated with the original campaigns, so discounts
+ * the smaller order no longer qualifies for (a seasonal threshold, a minimum
+ * spend) are clawed back from the refund. Nothing is shipped once every item
+ * is returned, so an empty remainder pays no shipping:
+ *
+ *   refundAmount   = original finalTotal - remaining finalTotal
+ *   shippingRefund = original shipping total - remaining shipping total
+ *   clawback       = what was paid for the returned units + shippingRefund - refundAmount
+ *
+ * Without originalResult the order is calculated again with the options.
+ * Coupon codes and loyalty points are not resolved here: the cart's
+ * discounts must already hold them, see applyRedeemedCoupons and
+ * applyRedeemedPoints.
+ */
+export function calculateRefund(
+    cart: Cart,
+    returns: ReturnedItem[],
+    originalResult?: DiscountResult,
+    options: CalculationOptions = {}
+): RefundResult {
+    const currency = cart.currency ?? DEFAULT_CURRENCY;
+    const original = originalResult ?? calculateDiscount(cart.items, cart.discounts, { ...options, currency, shipping: cart.shipping });
+    const returnedUnits = matchReturns(cart.items, returns);
+    const remainingItems = removeReturned(cart.items, returnedUnits);
+    const shipping = remainingItems.length > 0 ? cart.shipping : undefined;
+    const remainingResult = calculateDiscount(remainingItems, cart.discounts, { ...options, currency, shipping });
+    const amount = (units: number) => fromMinorUnits(units, currency);
+    const toUnits = (value: number) => toMinorUnits(value, currency);
+
+    const returnedItems = returnedUnits.map(({ line, quantity }): ReturnedLine => {
+        const item = cart.items[line]!;
+        const allocation = original.itemAllocations[line];
+        return {
+            name: item.name,
+            quantity,
+            grossAmount: amount(toUnits(item.price) * quantity),
+            paidAmount: allocation ? amount(shareOf(toUnits(allocation.netTotal), quantity, allocation.quantity)) : 0
+        };
+    });
+
+    const returnedPaid = returnedItems.reduce((sum, item) => sum + toUnits(item.paidAmount), 0);
+    const refund = Math.max(0, toUnits(original.finalTotal) - toUnits(remainingResult.finalTotal));
+    // A remainder that loses free shipping pays the fee; that is clawed back, not a negative refund
+    const shippingRefund = Math.max(0, toUnits(original.shipping?.total ?? 0) - toUnits(remainingResult.shipping?.total ?? 0));
+
+    return {
+        returnedItems,
+        returnedPaidAmount: amount(returnedPaid),
+        ...(original.shipping && { shippingRefund: amount(shippingRefund) }),
+        clawback: amount(returnedPaid + shippingRefund - refund),
+        refundAmount: amount(refund),
+        remainingResult,
+        campaignAdjustments: original.appliedCampaigns.map((campaign, index) => {
+            // The part of the original discount that went to units the customer keeps
+            const returnedShare = returnedUnits.reduce((sum, { line, quantity }) => {
+                const allocation = original.itemAllocations[line];
+                return sum + (allocation ? shareOf(toUnits(campaignDiscountOf(allocation, index)), quantity, allocation.quantity) : 0);
+            }, 0);
+            const keptShare = toUnits(campaign.discountAmount) - returnedShare;
+            const remainingDiscount = toUnits(remainingResult.appliedCampaigns[index]?.discountAmount ?? 0);
+
+            return {
+                category: campaign.category,
+                type: campaign.type,
+                description: campaign.description,
+                originalDiscount: campaign.discountAmount,
+                remainingDiscount: amount(remainingDiscount),
+                clawback: amount(keptShare - remainingDiscount)
+            };
+        })
+    };
+}
+
+// Matches returned items to cart lines by name, filling earlier lines first
+function matchReturns(cartItems: CartItem[], returns: ReturnedItem[]): ReturnedUnits[] {
+    const left = cartItems.map(item => item.quantity || 1);
+    const returned = cartItems.map(() => 0);
+
+    for (const item of returns) {
+        let quantity = item.quantity;
+        cartItems.forEach((cartItem, line) => {
+            if (quantity === 0 || cartItem.name !== item.name) return;
+            const taken = Math.min(quantity, left[line] ?? 0);
+            left[line] = (left[line] ?? 0) - taken;
+            returned[line] = (returned[line] ?? 0) + taken;
+            quantity -= taken;
+        });
+        if (quantity > 0) {
+            throw new Error(`Cannot return ${item.quantity} × ${item.name}: not enough purchased`);
+        }
+    }
+
+    return returned.flatMap((quantity, line) => quantity > 0 ? [{ line, quantity }] : []);
+}
+
+function removeReturned(cartItems: CartItem[], returnedUnits: ReturnedUnits[]): CartItem[] {
+    return cartItems.flatMap((item, line) => {
+        const returned = returnedUnits.find(units => units.line === line)?.quantity ?? 0;
+        const quantity = (item.quantity || 1) - returned;
+        return quantity > 0 ? [{ ...item, quantity }] : [];
+    });
+}
+
+function campaignDiscountOf(allocation: ItemAllocation, campaignIndex: number): number {
+    const discount = allocation.discounts.find(d => d.campaignIndex === campaignIndex);
+    return discount?.discountAmount ?? 0;
+}
+
+// Share of a line amount in minor units for some of its units
+function shareOf(units: number, quantity: number, lineQuantity: number): number {
+    return Math.round((units * quantity) / lineQuantity);
+}
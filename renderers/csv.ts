@@ -0,0 +1,50 @@
+import { minorUnitDigits } from "../money"
+import type { Cart, DiscountResult } from "../schema"
+import { loyaltyRows, summaryRows } from "./summary"
+
+const COLUMNS = ["record", "name", "category", "unit_price", "quantity", "amount", "discount", "net"]
+
+/**
+ * One row per item, campaign, total and loyalty points movement. The record column tells them apart;
+ * amounts are plain numbers with the decimals of the result's currency, without the currency code.
+ */
+export function renderCsv(cart: Cart, result: DiscountResult): string {
+    const rows: (string | number | undefined)[][] = [COLUMNS]
+    const digits = minorUnitDigits(result.currency)
+    const money = (amount: number) => amount.toFixed(digits)
+
+    cart.items.forEach((item, index) => {
+        const allocation = result.itemAllocations[index]
+        rows.push([
+            "item",
+            item.name,
+            item.category,
+            money(item.price),
+            item.quantity || 1,
+            money(allocation?.lineTotal ?? item.price * (item.quantity || 1)),
+            money(allocation?.totalDiscount ?? 0),
+            money(allocation?.netTotal ?? item.price * (item.quantity || 1))
+        ])
+    })
+
+    result.appliedCampaigns.forEach(campaign => {
+        rows.push(["campaign", campaign.description, campaign.category, undefined, undefined, undefined, money(campaign.discountAmount), undefined])
+    })
+
+    summaryRows(result).forEach(row => {
+        rows.push(["total", row.key, undefined, undefined, undefined, money(row.amount), undefined, undefined])
+    })
+
+    // Points are whole numbers in the amount column
+    loyaltyRows(result).forEach(row => {
+        rows.push(["points", row.key, undefined, undefined, undefined, row.points, undefined, undefined])
+    })
+
+    return rows.map(row => row.map(escapeCsv).join(",")).join("\n")
+}
+
+function escapeCsv(value: string | number | undefined): string {
+    if (value === undefined) return ""
+    const text = String(value)
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,75 @@
+import { formatCurrency } from "../money"
+import type { Cart, DiscountResult } from "../schema"
+import { campaignStatus, formatPoints, loyaltyRows, summaryRows } from "./summary"
+
+const STYLE = `
+    body { font-family: "Courier New", monospace; font-size: 12px; margin: 0; padding: 16px; }
+    .receipt { max-width: 80mm; margin: 0 auto; }
+    h1 { font-size: 16px; text-align: center; margin: 0 0 8px; }
+    h2 { font-size: 12px; border-bottom: 1px dashed #000; margin: 12px 0 4px; padding-bottom: 2px; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 1px 0; vertical-align: top; }
+    td.amount { text-align: right; white-space: nowrap; }
+    .detail { padding-left: 12px; font-size: 11px; }
+    .final td { font-weight: bold; border-top: 1px dashed #000; padding-top: 4px; }
+    @media print { body { padding: 0; } @page { margin: 4mm; } }
+`
+
+// Self-contained, printable receipt sized for 80 mm receipt printers
+export function renderHtml(cart: Cart, result: DiscountResult): string {
+    const money = (amount: number) => formatCurrency(amount, result.currency)
+    const items = cart.items.map((item, index) => {
+        const allocation = result.itemAllocations[index]
+        const quantity = item.quantity || 1
+        const discount = allocation && allocation.totalDiscount > 0
+            ? `<tr><td class="detail">Discount</td><td class="amount">-${escapeHtml(money(allocation.totalDiscount))}</td></tr>`
+            : ""
+        return `<tr><td>${escapeHtml(item.name)} (${escapeHtml(item.category)})<br><span class="detail">${escapeHtml(money(item.price))} × ${quantity}</span></td>`
+            + `<td class="amount">${escapeHtml(money(item.price * quantity))}</td></tr>${discount}`
+    })
+
+    const campaigns = result.appliedCampaigns.map(campaign => {
+        const status = campaignStatus(campaign)
+        const amount = status || `-${money(campaign.discountAmount)}`
+        return `<tr><td>${escapeHtml(campaign.description)}</td><td class="amount">${escapeHtml(amount)}</td></tr>`
+    })
+
+    const totals = summaryRows(result).map(row =>
+        `<tr${row.key === "final_total" ? ' class="final"' : ""}><td>${escapeHtml(row.label)}</td><td class="amount">${escapeHtml(money(row.amount))}</td></tr>`)
+
+    const points = loyaltyRows(result).map(row =>
+        `<tr><td>${escapeHtml(row.label)}</td><td class="amount">${formatPoints(row.points, row.key === "points_redeemed" || row.key === "points_earned")}</td></tr>`)
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Receipt</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<div class="receipt">
+<h1>Receipt</h1>
+<h2>Items</h2>
+<table>
+${items.join("\n")}
+</table>
+${campaigns.length > 0 ? `<h2>Discounts</h2>\n<table>\n${campaigns.join("\n")}\n</table>` : ""}
+<h2>Summary</h2>
+<table>
+${totals.join("\n")}
+</table>
+${points.length > 0 ? `<h2>Loyalty Points</h2>\n<table>\n${points.join("\n")}\n</table>` : ""}
+</div>
+</body>
+</html>
+`
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+}
@@ -0,0 +1,27 @@
+import { z } from "zod"
+import type { Cart, DiscountResult } from "../schema"
+import { renderCsv } from "./csv"
+import { renderHtml } from "./html"
+import { renderJson } from "./json"
+import { renderMarkdown } from "./markdown"
+import { renderText, renderTrace } from "./text"
+
+export const ReceiptFormat = z.enum(["text", "json", "csv", "html", "markdown"])
+
+export type ReceiptFormat = z.infer<typeof ReceiptFormat>
+
+export type Renderer = (cart: Cart, result: DiscountResult) => string
+
+export const renderers: Record<ReceiptFormat, Renderer> = {
+    text: renderText,
+    json: renderJson,
+    csv: renderCsv,
+    html: renderHtml,
+    markdown: renderMarkdown
+}
+
+export function renderReceipt(format: ReceiptFormat, cart: Cart, result: DiscountResult): string {
+    return renderers[format](cart, result)
+}
+
+export { renderText, renderTrace, renderJson, renderCsv, renderHtml, renderMarkdown }
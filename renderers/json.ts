@@ -0,0 +1,6 @@
+import type { Cart, DiscountResult } from "../schema"
+
+// Machine-readable output: the validated cart and the full result
+export function renderJson(cart: Cart, result: DiscountResult): string {
+    return JSON.stringify({ cart, result }, null, 2)
+}
@@ -0,0 +1,58 @@
+import { formatCurrency } from "../money"
+import type { Cart, DiscountResult } from "../schema"
+import { campaignStatus, formatPoints, loyaltyRows, summaryRows } from "./summary"
+
+export function renderMarkdown(cart: Cart, result: DiscountResult): string {
+    const money = (amount: number) => formatCurrency(amount, result.currency)
+    const lines: string[] = ["# Receipt", ""]
+
+    lines.push("## Items", "")
+    lines.push("| # | Item | Category | Price | Qty | Total | Discount | Net |")
+    lines.push("|---|------|----------|------:|----:|------:|---------:|----:|")
+    cart.items.forEach((item, index) => {
+        const allocation = result.itemAllocations[index]
+        const quantity = item.quantity || 1
+        lines.push(row([
+            String(index + 1),
+            item.name,
+            item.category,
+            money(item.price),
+            String(quantity),
+            money(allocation?.lineTotal ?? item.price * quantity),
+            money(allocation?.totalDiscount ?? 0),
+            money(allocation?.netTotal ?? item.price * quantity)
+        ]))
+    })
+
+    if (result.appliedCampaigns.length > 0) {
+        lines.push("", "## Discounts", "")
+        lines.push("| # | Campaign | Discount | Note |")
+        lines.push("|---|----------|---------:|------|")
+        result.appliedCampaigns.forEach((campaign, index) => {
+            lines.push(row([String(index + 1), campaign.description, money(campaign.discountAmount), campaignStatus(campaign)]))
+        })
+    }
+
+    lines.push("", "## Summary", "")
+    lines.push("| | Amount |")
+    lines.push("|---|---:|")
+    summaryRows(result).forEach(summary => {
+        const label = summary.key === "final_total" ? `**${summary.label}**` : summary.label
+        const amount = summary.key === "final_total" ? `**${money(summary.amount)}**` : money(summary.amount)
+        lines.push(row([label, amount]))
+    })
+
+    const points = loyaltyRows(result)
+    if (points.length > 0) {
+        lines.push("", "## Loyalty Points", "")
+        lines.push("| | Points |")
+        lines.push("|---|---:|")
+        points.forEach(row => lines.push(`| ${row.label} | ${formatPoints(row.points, row.key === "points_redeemed" || row.key === "points_earned")} |`))
+    }
+
+    return lines.join("\n")
+}
+
+function row(cells: string[]): string {
+    return `| ${cells.map(cell => cell.replace(/\|/g, "\\|")).join(" | ")} |`
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'bun:test';
+import { calculateDiscount } from '../discount';
+import type { Cart } from '../schema';
+import { renderReceipt, ReceiptFormat } from '.';
+
+const cart: Cart = {
+    items: [
+        { name: 'T-Shirt, "red"', price: 350, category: 'Clothing', quantity: 1 },
+        { name: 'Watch <b>', price: 850, category: 'Accessories', quantity: 2 }
+    ],
+    discounts: [{ category: 'Coupon', type: 'Fixed', amount: 100 }]
+};
+const result = calculateDiscount(cart.items, cart.discounts);
+
+describe('Receipt renderers', () => {
+    it('should render every format', () => {
+        for (const format of ReceiptFormat.options) {
+            expect(renderReceipt(format, cart, result)).toMatch(/1,?950/);
+        }
+    });
+
+    it('should render clean JSON with the cart and result', () => {
+        const parsed = JSON.parse(renderReceipt('json', cart, result));
+
+        expect(parsed.cart).toEqual(cart);
+        expect(parsed.result.finalTotal).toBe(1950);
+    });
+
+    it('should quote CSV fields containing commas and quotes', () => {
+        const lines = renderReceipt('csv', cart, result).split('\n');
+
+        expect(lines[0]).toBe('record,name,category,unit_price,quantity,amount,discount,net');
+        expect(lines[1]).toBe('item,"T-Shirt, ""red""",Clothing,350.00,1,350.00,17.07,332.93');
+        expect(lines).toContain('total,final_total,,,,1950.00,,');
+    });
+
+    it('should escape item names in HTML', () => {
+        const html = renderReceipt('html', cart, result);
+
+        expect(html).toStartWith('<!DOCTYPE html>');
+        expect(html).toContain('@media print');
+        expect(html).toContain('Watch &lt;b&gt;');
+        expect(html).not.toContain('Watch <b>');
+    });
+
+    it('should render Markdown tables', () => {
+        const markdown = renderReceipt('markdown', cart, result);
+
+        expect(markdown).toContain('| 2 | Watch <b> | Accessories | 850.00 THB | 2 | 1,700.00 THB | 82.93 THB | 1,617.07 THB |');
+        expect(markdown).toContain('| **Final payment** | **1,950.00 THB** |');
+    });
+});
@@ -0,0 +1,77 @@
+import type { DiscountResult } from "../schema"
+
+export interface SummaryRow {
+    key: string;
+    label: string;
+    amount: number;
+}
+
+const SHIPPING_METHODS = { flat: "flat rate", weight: "by weight", quantity: "per unit" } as const
+
+// e.g. "Shipping (by weight)"
+export function shippingLabel(shipping: NonNullable<DiscountResult["shipping"]>): string {
+    return `Shipping (${SHIPPING_METHODS[shipping.method]})`
+}
+
+// Totals shown under the line items, in receipt order; the subtotal includes shipping
+export function summaryRows(result: DiscountResult): SummaryRow[] {
+    const rows: SummaryRow[] = []
+    if (result.shipping) {
+        rows.push({ key: "shipping", label: shippingLabel(result.shipping), amount: result.shipping.fee })
+    }
+    rows.push(
+        { key: "subtotal", label: "Subtotal", amount: result.originalTotal },
+        { key: "total_discount", label: "Total discount", amount: result.totalDiscount }
+    )
+
+    if (result.tax) {
+        rows.push(
+            { key: "vatable_amount", label: "VATable amount (excl. VAT)", amount: result.tax.taxableAmount },
+            { key: "vat", label: `VAT ${result.tax.rate}%`, amount: result.tax.vatAmount }
+        )
+        if (result.tax.exemptCategories.length > 0) {
+            rows.push({ key: "vat_exempt_amount", label: "VAT-exempt amount", amount: result.tax.exemptAmount })
+        }
+        rows.push(
+            { key: "net_before_vat", label: "Net before VAT", amount: result.tax.netAmount },
+            { key: "total_incl_vat", label: "Total incl. VAT", amount: result.tax.grossAmount }
+        )
+    }
+
+    if (result.roundingAdjustment !== 0) {
+        rows.push({ key: "cash_rounding", label: "Cash rounding", amount: result.roundingAdjustment })
+    }
+
+    rows.push({ key: "final_total", label: "Final payment", amount: result.finalTotal })
+    return rows
+}
+
+export interface PointsRow {
+    key: string;
+    label: string;
+    points: number;
+}
+
+// Loyalty points movement, empty when the cart was not settled against a ledger
+export function loyaltyRows(result: DiscountResult): PointsRow[] {
+    const loyalty = result.loyalty
+    if (!loyalty) return []
+    return [
+        { key: "points_balance_before", label: "Points balance", points: loyalty.balanceBefore },
+        { key: "points_redeemed", label: "Points redeemed", points: -loyalty.pointsRedeemed },
+        { key: "points_earned", label: "Points earned", points: loyalty.pointsEarned },
+        { key: "points_balance_after", label: loyalty.committed ? "New points balance" : "New points balance (preview)", points: loyalty.balanceAfter }
+    ]
+}
+
+export function formatPoints(points: number, signed = false): string {
+    const formatted = Math.abs(points).toLocaleString("th-TH")
+    if (!signed) return formatted
+    return `${points < 0 ? "-" : "+"}${formatted}`
+}
+
+// Campaign status for receipts that cannot show the amount alone
+export function campaignStatus(campaign: DiscountResult["appliedCampaigns"][number]): string {
+    if (!campaign.applied) return `Not applied: ${campaign.reason}`
+    return campaign.discountAmount > 0 ? "" : "No discount"
+}
@@ -0,0 +1,182 @@
+import { isInCategory } from "../categories"
+import { formatCurrency } from "../money"
+import type { Cart, DiscountResult, TraceStep } from "../schema"
+import { formatPoints, loyaltyRows, shippingLabel } from "./summary"
+
+// 80-column receipt for the terminal
+export function renderText(cart: Cart, result: DiscountResult): string {
+    const lines: string[] = []
+    const money = (amount: number) => formatCurrency(amount, result.currency)
+    const items = cart.items
+    const discounts = cart.discounts
+
+    // Header
+    lines.push("")
+    lines.push(" ".repeat(28) + "RECEIPT SUMMARY" + " ".repeat(29))
+    lines.push("─".repeat(80))
+
+    // Items section
+    lines.push(" ITEMS" + " ".repeat(72) + "")
+    lines.push("─".repeat(80))
+
+    const exemptCategories: string[] = result.tax?.exemptCategories ?? []
+
+    items.forEach((item, index) => {
+        const quantity = item.quantity || 1
+        const itemTotal = item.price * quantity
+        const exemptMark = exemptCategories.some(category => isInCategory(item.category, category)) ? " *" : ""
+        const itemLine = `${index + 1}. ${item.name} (${item.category})${exemptMark}`
+        const priceLine = `${money(item.price)} × ${quantity} = ${money(itemTotal)}`
+
+        lines.push(` ${itemLine.padEnd(36)} ${priceLine.padStart(40)} `)
+    })
+
+    // Shipping is its own line; the subtotal includes it
+    if (result.shipping) {
+        const shipping = result.shipping
+        const fee = shipping.freeOverThreshold ? `FREE (${money(shipping.baseFee)} waived)` : money(shipping.fee)
+        lines.push(` ${shippingLabel(shipping).padEnd(36)} ${fee.padStart(40)} `)
+    }
+
+    lines.push("─".repeat(80))
+    lines.push(` SUBTOTAL${" ".repeat(44)}${money(result.originalTotal).padStart(24)} `)
+
+    // Discounts section (only show if there are discounts)
+    if (discounts.length > 0 && (result.totalDiscount > 0 || result.appliedCampaigns.some(c => !c.applied))) {
+        lines.push("─".repeat(80))
+        lines.push(" DISCOUNTS APPLIED" + " ".repeat(60) + "")
+        lines.push("─".repeat(80))
+
+        // Show campaign details, in the order they were applied
+        result.appliedCampaigns.forEach((campaign, index) => {
+            if (!campaign.applied) {
+                lines.push(` ${(index + 1) + ". " + campaign.description.padEnd(50)} ${("Not applied").padStart(24)} `)
+                lines.push(`    ${campaign.reason}`)
+            } else if (campaign.discountAmount > 0) {
+                lines.push(` ${(index + 1) + ". " + campaign.description.padEnd(50)} ${money(campaign.discountAmount).padStart(24)} `)
+                if (campaign.exhausted) lines.push("    Budget exhausted with this order")
+            } else {
+                lines.push(` ${(index + 1) + ". " + campaign.description.padEnd(50)} ${("No discount").padStart(24)} `)
+            }
+
+            // Item-level campaigns list the units they discounted
+            campaign.units?.forEach(units => {
+                lines.push(`    ${`${units.name} × ${units.quantity}`.padEnd(49)} ${("-" + money(units.discountAmount)).padStart(24)} `)
+            })
+        })
+
+        lines.push("─".repeat(80))
+        lines.push(` TOTAL DISCOUNT${" ".repeat(38)}${money(result.totalDiscount).padStart(24)} `)
+
+        // Per-item split of the discounts
+        lines.push("─".repeat(80))
+        lines.push(" DISCOUNT PER ITEM" + " ".repeat(60) + "")
+        lines.push("─".repeat(80))
+
+        result.itemAllocations.forEach((allocation, index) => {
+            const itemLine = `${index + 1}. ${allocation.name}`
+            const discountLine = `-${money(allocation.totalDiscount)} → ${money(allocation.netTotal)}`
+
+            lines.push(` ${itemLine.padEnd(36)} ${discountLine.padStart(40)} `)
+            allocation.discounts.forEach(discount => {
+                lines.push(`    ${`${discount.category} (${discount.type})`.padEnd(33)} ${("-" + money(discount.discountAmount)).padStart(40)} `)
+            })
+        })
+    }
+
+    // VAT summary (only with a tax configuration)
+    if (result.tax) {
+        const tax = result.tax
+        const basis = tax.pricesIncludeTax ? "prices include VAT" : "VAT added to prices"
+        lines.push("─".repeat(80))
+        lines.push(` VAT SUMMARY (${basis})`)
+        lines.push("─".repeat(80))
+        lines.push(` VATABLE AMOUNT (EXCL. VAT)${" ".repeat(26)}${money(tax.taxableAmount).padStart(24)} `)
+        lines.push(` VAT ${tax.rate}%`.padEnd(53) + `${money(tax.vatAmount).padStart(24)} `)
+        if (tax.exemptCategories.length > 0) {
+            lines.push(` VAT-EXEMPT AMOUNT *${" ".repeat(33)}${money(tax.exemptAmount).padStart(24)} `)
+        }
+        lines.push(` NET BEFORE VAT${" ".repeat(38)}${money(tax.netAmount).padStart(24)} `)
+        lines.push(` TOTAL INCL. VAT${" ".repeat(37)}${money(tax.grossAmount).padStart(24)} `)
+        if (tax.exemptCategories.length > 0) {
+            lines.push(` * VAT exempt: ${tax.exemptCategories.join(", ")}`)
+        }
+    }
+
+    // Cash rounding (only with the 'cash' rounding policy)
+    if (result.roundingAdjustment !== 0) {
+        lines.push("─".repeat(80))
+        lines.push(` CASH ROUNDING${" ".repeat(38)}${money(result.roundingAdjustment).padStart(25)} `)
+    }
+
+    // Final total
+    lines.push("─".repeat(80))
+    lines.push(` FINAL PAYMENT${" ".repeat(38)}${money(result.finalTotal).padStart(25)} `)
+
+    // Savings summary (if applicable)
+    if (result.totalDiscount > 0) {
+        const savingsPercent = (result.totalDiscount / result.originalTotal * 100).toFixed(1)
+        lines.push("─".repeat(80))
+        lines.push(` YOU SAVED ${savingsPercent}%${" ".repeat(38)}${money(result.totalDiscount).padStart(25)} `)
+    }
+
+    lines.push("─".repeat(80))
+
+    // Loyalty points (only when settled against a ledger)
+    if (result.loyalty) {
+        lines.push(` LOYALTY POINTS (${result.loyalty.program}, customer ${result.loyalty.customerId})`)
+        lines.push("─".repeat(80))
+        loyaltyRows(result).forEach(row => {
+            const signed = row.key === "points_redeemed" || row.key === "points_earned"
+            lines.push(` ${row.label.toUpperCase().padEnd(52)}${formatPoints(row.points, signed).padStart(24)} `)
+        })
+        lines.push("─".repeat(80))
+    }
+
+    // Calculation trace (only with the trace option)
+    if (result.trace) {
+        lines.push(renderTrace(result.trace, result.currency))
+    }
+
+    return lines.join("\n")
+}
+
+// Step-by-step derivation of every campaign, printed by --explain
+export function renderTrace(trace: TraceStep[], currency?: string): string {
+    const lines: string[] = []
+    const money = (amount: number) => formatCurrency(amount, currency)
+    lines.push(" CALCULATION TRACE" + " ".repeat(60) + "")
+    lines.push("─".repeat(80))
+
+    if (trace.length === 0) {
+        lines.push(" No campaigns")
+    }
+
+    trace.forEach((step, index) => {
+        // Shipping campaigns work on the shipping fee instead of the items
+        const running = step.category === "Shipping" ? "Shipping fee" : "Running total"
+        lines.push(` ${(index + 1) + ". " + step.description.padEnd(50)} ${`${step.category}, stage ${step.stage}`.padStart(24)} `)
+        lines.push(`    ${`${running} in`.padEnd(20)}${money(step.totalBefore)}`)
+
+        if (!step.applied) {
+            lines.push(`    Not applied         ${step.reason}`)
+            return
+        }
+
+        const parameters = Object.entries(step.parameters ?? {}).map(([name, value]) => `${name} = ${value}`)
+        lines.push(`    Formula             ${step.formula}`)
+        lines.push(`    Parameters          ${parameters.join(", ")}`)
+        if (step.cappedBy) {
+            const cap = step.cappedBy === "maxDiscount" ? "capped by maxDiscount"
+                : step.cappedBy === "budget" ? "capped at the budget left"
+                : step.cappedBy === "targetedLines" ? "capped at what the targeted items have left"
+                : "capped at the running total"
+            lines.push(`    Calculated          ${money(step.calculatedAmount ?? 0)} (${cap})`)
+        }
+        lines.push(`    Discount            -${money(step.discountAmount)}`)
+        lines.push(`    ${`${running} out`.padEnd(20)}${money(step.totalAfter)}`)
+    })
+
+    lines.push("─".repeat(80))
+    return lines.join("\n")
+}
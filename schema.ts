@@ -1,110 +1,585 @@
 import { z } from 'zod/v4';
 
-// Enums
-export const ItemCategory = z.enum(['Clothing', 'Accessories', 'Electronics']);
-export const CampaignCategory = z.enum(['Coupon', 'On Top', 'Seasonal']);
-export const DiscountType = z.enum(['Fixed', 'Percentage', 'Special']);
+import { ItemCategory } from './categories';
+import { BudgetUsageSchema, budgetCurrency, CampaignCategory, DiscountCampaignSchema, hasBudget, type DiscountCampaign } from './campaigns';
+import { CurrencyCode, exchangeRate } from './currency';
+import { DEFAULT_CURRENCY, toMinorUnits } from './money';
+import { checkStackingPolicy } from './policy';
+import { getProduct, hasProductCatalog } from './products';
 
+export { ItemCategory } from './categories';
+export { CurrencyCode } from './currency';
+export {
+    CampaignCategory,
+    DiscountType,
+    DiscountCampaignSchema,
+    FixedAmountCampaignSchema,
+    PercentageCouponCampaignSchema,
+    CategoryDiscountCampaignSchema,
+    PointsDiscountCampaignSchema,
+    SeasonalCampaignSchema,
+    TieredSeasonalCampaignSchema,
+    ShippingDiscountCampaignSchema,
+    type DiscountCampaign,
+    type FixedAmountCampaign,
+    type PercentageCouponCampaign,
+    type CategoryDiscountCampaign,
+    type PointsDiscountCampaign,
+    type SeasonalCampaign,
+    type TieredSeasonalCampaign,
+    type ShippingDiscountCampaign
+} from './campaigns';
 
-export type ItemCategory = z.infer<typeof ItemCategory>;
-export type CampaignCategory = z.infer<typeof CampaignCategory>;
-export type DiscountType = z.infer<typeof DiscountType>;
+// 'cash' rounds like 'half-up' per campaign and then rounds the payable total to the smallest coin (0.25 THB)
+export const RoundingPolicy = z.enum(['half-up', 'half-even', 'floor', 'cash']);
 
+export type RoundingPolicy = z.infer<typeof RoundingPolicy>;
 
+// A cart line once its SKU, if any, has been resolved
+interface ResolvedCartItem {
+    sku?: string;
+    name: string;
+    price: number;
+    category: string;
+    quantity: number;
+    weight?: number;
+}
 
-// Campaign Schemas
-export const FixedAmountCampaignSchema = z.object({
-    category: z.literal('Coupon'),
-    type: z.literal('Fixed'),
-    amount: z.number().min(0, 'Amount must be non-negative')
-});
+/**
+ * A cart line is either fully described by the client, or references a
+ * product by SKU and gets its name, price and category from the product
+ * catalog. A price or category sent along with a SKU must match the catalog.
+ * Once a catalog is loaded every line needs a SKU, so clients cannot set
+ * their own prices.
+ */
+export const CartItemSchema = z.object({
+    sku: z.string().min(1, 'SKU must not be empty').optional(),
+    name: z.string().min(1, 'Item name is required').optional(),
+    price: z.number().min(0, 'Price must be non-negative').optional(),
+    category: ItemCategory.optional(),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1').optional().default(1),
+    // Kilograms per unit, for weight-based shipping
+    weight: z.number().min(0, 'Weight must be non-negative').optional()
+}).transform((item, ctx): ResolvedCartItem => {
+    const weight = item.weight === undefined ? {} : { weight: item.weight };
+    if (item.sku === undefined) {
+        if (hasProductCatalog()) {
+            ctx.issues.push({ code: 'custom', message: 'SKU is required when a product catalog is loaded', path: ['sku'], input: item });
+            return z.NEVER;
+        }
+        const { name, price, category } = item;
+        if (name === undefined) ctx.issues.push({ code: 'custom', message: 'Item name is required', path: ['name'], input: item });
+        if (price === undefined) ctx.issues.push({ code: 'custom', message: 'Price is required', path: ['price'], input: item });
+        if (category === undefined) ctx.issues.push({ code: 'custom', message: 'Category is required', path: ['category'], input: item });
+        if (name === undefined || price === undefined || category === undefined) return z.NEVER;
+        return { name, price, category, quantity: item.quantity, ...weight };
+    }
 
-export const PercentageCouponCampaignSchema = z.object({
-    category: z.literal('Coupon'),
-    type: z.literal('Percentage'),
-    percentage: z.number().min(0).max(100, 'Percentage must be between 0 and 100')
-});
+    const product = getProduct(item.sku);
+    if (!product) {
+        const message = hasProductCatalog() ? `Unknown SKU: ${item.sku}` : `Cannot resolve SKU ${item.sku}: no product catalog loaded`;
+        ctx.issues.push({ code: 'custom', message, path: ['sku'], input: item });
+        return z.NEVER;
+    }
+    if (item.price !== undefined && toMinorUnits(item.price) !== toMinorUnits(product.price)) {
+        ctx.issues.push({ code: 'custom', message: `Price ${item.price} does not match the catalog price ${product.price} for SKU ${item.sku}`, path: ['price'], input: item });
+    }
+    if (item.category !== undefined && item.category !== product.category) {
+        ctx.issues.push({ code: 'custom', message: `Category ${item.category} does not match the catalog category ${product.category} for SKU ${item.sku}`, path: ['category'], input: item });
+    }
 
-export const CategoryDiscountCampaignSchema = z.object({
-    category: z.literal('On Top'),
-    type: z.literal('Percentage'),
-    targetCategory: ItemCategory,
-    percentage: z.number().min(0).max(100, 'Percentage must be between 0 and 100')
+    return { sku: product.sku, name: product.name, price: product.price, category: product.category, quantity: item.quantity, ...weight };
 });
 
-export const PointsDiscountCampaignSchema = z.object({
-    category: z.literal('On Top'),
-    type: z.literal('Fixed'),
-    customerPoints: z.number().int().min(0, 'Customer points must be non-negative')
-});
+export type CartItem = z.output<typeof CartItemSchema>;
 
-export const SeasonalCampaignSchema = z.object({
-    category: z.literal('Seasonal'),
-    type: z.literal('Special'),
-    everyXThb: z.number().min(1, 'Every X THB must be at least 1'),
-    discountYThb: z.number().min(1, 'Discount Y THB must be at least 1')
-});
+// Fields every shipping method shares
+const shippingBaseShape = {
+    // Shipping is free once the item total after the item campaigns reaches this amount
+    freeOver: z.number().min(0, 'Free shipping threshold must be non-negative').optional()
+};
 
-// Union schema for all discount campaigns
-export const DiscountCampaignSchema = z.union([
-    FixedAmountCampaignSchema,
-    PercentageCouponCampaignSchema,
-    CategoryDiscountCampaignSchema,
-    PointsDiscountCampaignSchema,
-    SeasonalCampaignSchema
+// How the shipping fee is worked out; amounts are in the cart's currency
+export const ShippingSchema = z.discriminatedUnion('method', [
+    z.object({
+        method: z.literal('flat'),
+        fee: z.number().min(0, 'Shipping fee must be non-negative'),
+        ...shippingBaseShape
+    }),
+    z.object({
+        method: z.literal('weight'),
+        baseFee: z.number().min(0, 'Base fee must be non-negative').optional().default(0),
+        perKg: z.number().min(0, 'Fee per kg must be non-negative'),
+        ...shippingBaseShape
+    }),
+    z.object({
+        method: z.literal('quantity'),
+        baseFee: z.number().min(0, 'Base fee must be non-negative').optional().default(0),
+        perUnit: z.number().min(0, 'Fee per unit must be non-negative'),
+        ...shippingBaseShape
+    })
 ]);
 
-export type FixedAmountCampaign = z.infer<typeof FixedAmountCampaignSchema>;
-export type PercentageCouponCampaign = z.infer<typeof PercentageCouponCampaignSchema>;
-export type CategoryDiscountCampaign = z.infer<typeof CategoryDiscountCampaignSchema>;
-export type PointsDiscountCampaign = z.infer<typeof PointsDiscountCampaignSchema>;
-export type SeasonalCampaign = z.infer<typeof SeasonalCampaignSchema>;
-export type DiscountCampaign = z.infer<typeof DiscountCampaignSchema>;
+export type Shipping = z.infer<typeof ShippingSchema>;
 
-export const CartItemSchema = z.object({
-    name: z.string().min(1, 'Item name is required'),
-    price: z.number().min(0, 'Price must be non-negative'),
-    category: ItemCategory,
-    quantity: z.number().int().min(1, 'Quantity must be at least 1').optional().default(1)
-});
+// Weight-based shipping needs the weight of every line
+function checkShippingWeights(items: CartItem[], shipping: Shipping | undefined, ctx: z.RefinementCtx): void {
+    if (shipping?.method !== 'weight') return;
+    items.forEach((item, index) => {
+        if (item.weight === undefined) {
+            ctx.addIssue({ code: 'custom', message: 'Weight is required for weight-based shipping', path: ['items', index, 'weight'] });
+        }
+    });
+}
 
-export type CartItem = z.infer<typeof CartItemSchema>;
 
+// Campaigns in another currency than the cart need a rate from the exchange rate table
+function checkExchangeRates(campaigns: DiscountCampaign[], cartCurrency: string | undefined, ctx: z.RefinementCtx, path: PropertyKey[]): void {
+    const currency = cartCurrency ?? DEFAULT_CURRENCY;
+    campaigns.forEach((campaign, index) => {
+        if (campaign.currency !== undefined && exchangeRate(campaign.currency, currency) === undefined) {
+            ctx.addIssue({ code: 'custom', message: `No exchange rate from ${campaign.currency} to ${currency}`, path: [...path, index, 'currency'] });
+        } else if (hasBudget(campaign) && exchangeRate(budgetCurrency(campaign), currency) === undefined) {
+            // Without a currency of its own the campaign still spends a THB budget
+            const field = campaign.budget === undefined ? 'maxRedemptions' : 'budget';
+            ctx.addIssue({ code: 'custom', message: `No exchange rate from ${budgetCurrency(campaign)} to ${currency} for the campaign's budget`, path: [...path, index, field] });
+        }
+    });
+}
+
+// Budgets are tracked per campaign id, so a campaign with a budget needs one
+function checkBudgetIds(campaigns: DiscountCampaign[], ctx: z.RefinementCtx, path: PropertyKey[]): void {
+    campaigns.forEach((campaign, index) => {
+        if (hasBudget(campaign) && campaign.id === undefined) {
+            ctx.addIssue({ code: 'custom', message: 'A campaign with a budget or redemption limit needs an id', path: [...path, index, 'id'] });
+        }
+    });
+}
 
 // Input Schema
 export const CartSchema = z.object({
+    // Currency of the item prices and the receipt; THB when left out
+    currency: CurrencyCode.optional(),
     items: z.array(CartItemSchema).min(1, 'Cart must contain at least one item'),
-    discounts: z.array(DiscountCampaignSchema)
-}).refine((data) => {
-    const campaigns = data.discounts.filter(c => c.category === 'Coupon');
-    return campaigns.length <= 1;
-}, {
-    message: 'Only one coupon campaign is allowed',
-    path: ['discounts']
-}).refine((data) => {
-    const campaigns = data.discounts.filter(c => c.category === "On Top");
-    return campaigns.length <= 1;
-}, {
-    message: 'Only one On Top campaign allowed',
-    path: ['discounts']
+    discounts: z.array(DiscountCampaignSchema),
+    shipping: ShippingSchema.optional(),
+    // Issued coupon codes, resolved to campaigns through the coupon registry
+    couponCodes: z.array(z.string().trim().min(1, 'Coupon code must not be empty')).optional(),
+    // Needed for coupons limited per customer and for loyalty points
+    customerId: z.string().min(1, 'Customer id must not be empty').optional(),
+    // Loyalty program the customer collects points in, resolved through the ledger
+    loyalty: z.object({
+        program: z.string().min(1, 'Loyalty program is required').optional().default('default'),
+        // Points to spend, or 'all' for the whole balance; the points cap may use fewer
+        redeemPoints: z.union([z.literal('all'), z.number().int().min(1, 'Points to redeem must be at least 1')]).optional()
+    }).optional()
+}).superRefine((data, ctx) => {
+    checkExchangeRates(data.discounts, data.currency, ctx, ['discounts']);
+    checkBudgetIds(data.discounts, ctx, ['discounts']);
+    checkShippingWeights(data.items, data.shipping, ctx);
+}).refine((data) => data.loyalty === undefined || data.customerId !== undefined, {
+    message: 'Loyalty points need a customerId',
+    path: ['customerId']
 }).refine((data) => {
-    const campaigns = data.discounts.filter(c => c.category === "Seasonal");
-    return campaigns.length <= 1;
+    const codes = (data.couponCodes ?? []).map(code => code.toUpperCase());
+    return new Set(codes).size === codes.length;
 }, {
-    message: 'Only one Seasonal campaign allowed',
-    path: ['discounts']
+    message: 'Each coupon code can only be used once per cart',
+    path: ['couponCodes']
+}).superRefine((data, ctx) => {
+    checkStackingPolicy(data.discounts, data.currency).forEach(violation => {
+        ctx.addIssue({ code: 'custom', message: violation.message, path: ['discounts', violation.index] });
+    });
 });
 
 export type Cart = z.infer<typeof CartSchema>;
 
+export const TaxConfigSchema = z.object({
+    // Percent, e.g. 7 for Thai VAT
+    rate: z.number().min(0).max(100, 'Tax rate must be between 0 and 100'),
+    // Thai retail prices include VAT; set to false when VAT is added on top
+    pricesIncludeTax: z.boolean().optional().default(true),
+    exemptCategories: z.array(ItemCategory).optional().default([])
+});
+
+export type TaxConfig = z.infer<typeof TaxConfigSchema>;
+
+export const CalculationOptionsSchema = z.object({
+    // Currency of the item prices, normally the cart's; defaults to THB
+    currency: CurrencyCode.optional(),
+    rounding: RoundingPolicy.optional(),
+    tax: TaxConfigSchema.optional(),
+    // Shipping of the items, normally the cart's; no fee when left out
+    shipping: ShippingSchema.optional(),
+    // Adds a step-by-step trace of every campaign to the result
+    trace: z.boolean().optional(),
+    // Spend so far per campaign id, from the budget store; campaigns without an entry have their whole budget left
+    budgets: z.record(z.string(), BudgetUsageSchema).optional()
+});
+
+// Input type so callers can leave out fields that have defaults
+export type CalculationOptions = z.input<typeof CalculationOptionsSchema>;
+
+// Units of one cart line discounted by an item-level campaign
+export const DiscountedUnitsSchema = z.object({
+    name: z.string(),
+    quantity: z.number().int().min(1),
+    discountAmount: z.number().min(0)
+});
+
+export const AppliedCampaignSchema = z.object({
+    category: CampaignCategory,
+    type: z.string(),
+    description: z.string(),
+    discountAmount: z.number().min(0),
+    // False when one of the campaign's conditions was not met, see reason
+    applied: z.boolean(),
+    reason: z.string().optional(),
+    units: z.array(DiscountedUnitsSchema).optional(),
+    // Loyalty points the discount used up, for campaigns paid with points
+    pointsRedeemed: z.number().int().min(0).optional(),
+    // The campaign's id, when it has one
+    id: z.string().optional(),
+    // True when the campaign's budget or redemptions ran out with this order or before it
+    exhausted: z.boolean().optional()
+});
+
+export type DiscountedUnits = z.infer<typeof DiscountedUnitsSchema>;
+export type AppliedCampaign = z.infer<typeof AppliedCampaignSchema>;
+
+// Share of a single campaign's discount attributed to one cart line
+export const ItemDiscountSchema = z.object({
+    // Position of the campaign in appliedCampaigns; category and type alone can repeat
+    campaignIndex: z.number().int().min(0),
+    category: CampaignCategory,
+    type: z.string(),
+    discountAmount: z.number().min(0)
+});
+
+export const ItemAllocationSchema = z.object({
+    name: z.string(),
+    category: ItemCategory,
+    quantity: z.number().int().min(1),
+    lineTotal: z.number().min(0),
+    discounts: z.array(ItemDiscountSchema),
+    totalDiscount: z.number().min(0),
+    netTotal: z.number().min(0)
+});
+
+export type ItemDiscount = z.infer<typeof ItemDiscountSchema>;
+export type ItemAllocation = z.infer<typeof ItemAllocationSchema>;
+
+// VAT on the discounted prices; grossAmount is what the customer pays before cash rounding
+export const TaxSummarySchema = z.object({
+    rate: z.number().min(0),
+    pricesIncludeTax: z.boolean(),
+    exemptCategories: z.array(ItemCategory),
+    // Discounted amount of the lines that carry VAT, excluding VAT
+    taxableAmount: z.number().min(0),
+    // Discounted amount of the VAT-exempt lines
+    exemptAmount: z.number().min(0),
+    // Pre-tax net: taxableAmount + exemptAmount
+    netAmount: z.number().min(0),
+    vatAmount: z.number().min(0),
+    grossAmount: z.number().min(0)
+});
+
+export type TaxSummary = z.infer<typeof TaxSummarySchema>;
+
+// Points movement of one order in the customer's loyalty account
+export const LoyaltySummarySchema = z.object({
+    customerId: z.string(),
+    program: z.string(),
+    balanceBefore: z.number().int().min(0),
+    pointsRedeemed: z.number().int().min(0),
+    // Earned on finalTotal at the program's earn rate
+    pointsEarned: z.number().int().min(0),
+    balanceAfter: z.number().int().min(0),
+    // False for a preview that was not written to the ledger
+    committed: z.boolean()
+});
+
+export type LoyaltySummary = z.infer<typeof LoyaltySummarySchema>;
+
+// Shipping line of the receipt; fee is part of originalTotal and discount of totalDiscount
+export const ShippingSummarySchema = z.object({
+    method: z.enum(['flat', 'weight', 'quantity']),
+    // What the method charges for the items
+    baseFee: z.number().min(0),
+    // True when the item total after the item campaigns reached freeOver
+    freeOverThreshold: z.boolean(),
+    // baseFee, or 0 over the threshold
+    fee: z.number().min(0),
+    // Taken off by shipping campaigns
+    discount: z.number().min(0),
+    // What the customer pays for shipping: fee - discount
+    total: z.number().min(0)
+});
+
+export type ShippingSummary = z.infer<typeof ShippingSummarySchema>;
+
+// One step of the explain trace: how a campaign changed the running total
+export const TraceStepSchema = z.object({
+    category: CampaignCategory,
+    type: z.string(),
+    description: z.string(),
+    stage: z.number().int(),
+    // Running total of the items, or the shipping fee left for shipping campaigns
+    totalBefore: z.number().min(0),
+    applied: z.boolean(),
+    reason: z.string().optional(),
+    // How the campaign worked out its amount, see CampaignExplanation
+    formula: z.string().optional(),
+    parameters: z.record(z.string(), z.union([z.number(), z.string(), z.boolean()])).optional(),
+    // What the formula gave before maxDiscount, the running total and the budget were applied
+    calculatedAmount: z.number().min(0).optional(),
+    // Which limit cut the amount, if any; targetedLines is what the lines the campaign targets have left
+    cappedBy: z.enum(['maxDiscount', 'runningTotal', 'targetedLines', 'budget']).optional(),
+    discountAmount: z.number().min(0),
+    totalAfter: z.number().min(0)
+});
+
+export type TraceStep = z.infer<typeof TraceStepSchema>;
+
 export const DiscountResultSchema = z.object({
+    // Every amount in the result is in this currency
+    currency: CurrencyCode.optional().default(DEFAULT_CURRENCY),
+    originalTotal: z.number().min(0),
+    finalTotal: z.number().min(0),
+    totalDiscount: z.number().min(0),
+    // Only non-zero with the 'cash' rounding policy:
+    // finalTotal = originalTotal - totalDiscount + roundingAdjustment (+ VAT when prices exclude tax)
+    roundingAdjustment: z.number(),
+    // One entry per campaign, in the order they were applied
+    appliedCampaigns: z.array(AppliedCampaignSchema),
+    // Per-line split of every campaign; line discounts add up to totalDiscount
+    itemAllocations: z.array(ItemAllocationSchema),
+    // Only present when a tax configuration was given
+    tax: TaxSummarySchema.optional(),
+    // Only present when the cart has shipping
+    shipping: ShippingSummarySchema.optional(),
+    // Only present when the trace option was set
+    trace: z.array(TraceStepSchema).optional(),
+    // Only present when the cart was settled against a loyalty ledger
+    loyalty: LoyaltySummarySchema.optional()
+});
+
+export type DiscountResult = z.infer<typeof DiscountResultSchema>;
+
+// Optimizer input: a pool of candidates, combined as far as the stacking policy allows
+// The optimizer calculates every combination, and with raised category limits they double with each candidate
+export const MAX_OPTIMIZATION_CANDIDATES = 12;
+
+export const OptimizationRequestSchema = z.object({
+    currency: CurrencyCode.optional(),
+    items: z.array(CartItemSchema).min(1, 'Cart must contain at least one item'),
+    shipping: ShippingSchema.optional(),
+    candidates: z.array(DiscountCampaignSchema)
+        .min(1, 'At least one candidate campaign is required')
+        .max(MAX_OPTIMIZATION_CANDIDATES, `At most ${MAX_OPTIMIZATION_CANDIDATES} candidate campaigns can be optimized at once`)
+}).superRefine((data, ctx) => {
+    checkExchangeRates(data.candidates, data.currency, ctx, ['candidates']);
+    checkShippingWeights(data.items, data.shipping, ctx);
+});
+
+export type OptimizationRequest = z.infer<typeof OptimizationRequestSchema>;
+
+export const CampaignCombinationSchema = z.object({
+    // Positions of the chosen campaigns in the candidate list
+    candidateIndexes: z.array(z.number().int().min(0)),
+    campaigns: z.array(DiscountCampaignSchema),
+    result: DiscountResultSchema
+});
+
+export const OptimizationResultSchema = z.object({
+    best: CampaignCombinationSchema,
+    // Next best combinations, cheapest first
+    alternatives: z.array(CampaignCombinationSchema),
+    combinationsEvaluated: z.number().int().min(1)
+});
+
+export type CampaignCombination = z.infer<typeof CampaignCombinationSchema>;
+export type OptimizationResult = z.infer<typeof OptimizationResultSchema>;
+
+export const ScenarioSchema = z.object({
+    name: z.string().min(1, 'Scenario name must not be empty').optional(),
+    discounts: z.array(DiscountCampaignSchema)
+});
+
+export const SampleCartSchema = z.object({
+    name: z.string().min(1, 'Cart name must not be empty').optional(),
+    currency: CurrencyCode.optional(),
+    items: z.array(CartItemSchema).min(1, 'Cart must contain at least one item'),
+    shipping: ShippingSchema.optional()
+}).superRefine((data, ctx) => checkShippingWeights(data.items, data.shipping, ctx));
+
+// What-if input: sample carts, each calculated with every campaign set
+export const ComparisonRequestSchema = z.object({
+    carts: z.array(SampleCartSchema).min(1, 'At least one cart is required'),
+    scenarios: z.array(ScenarioSchema).min(1, 'At least one scenario is required')
+}).superRefine((data, ctx) => {
+    const currencies = new Set(data.carts.map(cart => cart.currency ?? DEFAULT_CURRENCY));
+    data.scenarios.forEach((scenario, scenarioIndex) => {
+        const path = ['scenarios', scenarioIndex, 'discounts'];
+        currencies.forEach(currency => checkExchangeRates(scenario.discounts, currency, ctx, path));
+        // Each campaign also runs on its own, so only the combined set can break the policy
+        checkStackingPolicy(scenario.discounts).forEach(violation => {
+            ctx.addIssue({ code: 'custom', message: violation.message, path: [...path, violation.index] });
+        });
+    });
+});
+
+export type Scenario = z.infer<typeof ScenarioSchema>;
+export type SampleCart = z.output<typeof SampleCartSchema>;
+export type ComparisonRequest = z.infer<typeof ComparisonRequestSchema>;
+
+export const ScenarioRunSchema = z.object({
+    // "All combined", or "#2 alone" for the scenario's second campaign on its own
+    label: z.string(),
+    // Positions of the campaigns in the scenario that took part
+    campaignIndexes: z.array(z.number().int().min(0)),
     originalTotal: z.number().min(0),
+    totalDiscount: z.number().min(0),
     finalTotal: z.number().min(0),
+    // Discount of every campaign of the scenario, in scenario order; 0 when it took no part or did not apply
+    campaignDiscounts: z.array(z.number().min(0))
+});
+
+export const ScenarioComparisonSchema = z.object({
+    scenario: z.string(),
+    // Descriptions of the scenario's campaigns, in scenario order
+    campaigns: z.array(z.string()),
+    // Every campaign on its own, then all of them combined
+    runs: z.array(ScenarioRunSchema)
+});
+
+export const CartComparisonSchema = z.object({
+    cart: z.string(),
+    currency: CurrencyCode,
+    scenarios: z.array(ScenarioComparisonSchema)
+});
+
+export const ComparisonResultSchema = z.object({
+    carts: z.array(CartComparisonSchema)
+});
+
+export type ScenarioRun = z.infer<typeof ScenarioRunSchema>;
+export type ScenarioComparison = z.infer<typeof ScenarioComparisonSchema>;
+export type CartComparison = z.infer<typeof CartComparisonSchema>;
+export type ComparisonResult = z.infer<typeof ComparisonResultSchema>;
+
+export const ReturnedItemSchema = z.object({
+    name: z.string().min(1, 'Item name is required'),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1').optional().default(1)
+});
+
+export type ReturnedItem = z.infer<typeof ReturnedItemSchema>;
+
+// Refund input: the original order, what it was charged, and what comes back
+export const RefundRequestSchema = z.object({
+    cart: CartSchema,
+    // Recalculated from the cart when omitted
+    originalResult: DiscountResultSchema.optional(),
+    returns: z.array(ReturnedItemSchema).min(1, 'At least one returned item is required')
+}).superRefine((data, ctx) => {
+    const returned = new Map<string, number>();
+    data.returns.forEach((item, index) => {
+        const purchased = data.cart.items
+            .filter(cartItem => cartItem.name === item.name)
+            .reduce((sum, cartItem) => sum + cartItem.quantity, 0);
+        const total = (returned.get(item.name) ?? 0) + item.quantity;
+        returned.set(item.name, total);
+
+        if (purchased === 0) {
+            ctx.addIssue({ code: 'custom', message: `Item was not part of the order: ${item.name}`, path: ['returns', index, 'name'] });
+        } else if (total > purchased) {
+            ctx.addIssue({ code: 'custom', message: `Cannot return more than the ${purchased} purchased`, path: ['returns', index, 'quantity'] });
+        }
+    });
+});
+
+export type RefundRequest = z.infer<typeof RefundRequestSchema>;
+
+export const ReturnedLineSchema = z.object({
+    name: z.string(),
+    quantity: z.number().int().min(1),
+    // Price × quantity before discounts
+    grossAmount: z.number().min(0),
+    // What the customer actually paid for these units, from itemAllocations
+    paidAmount: z.number().min(0)
+});
+
+export const CampaignAdjustmentSchema = z.object({
+    category: CampaignCategory,
+    type: z.string(),
+    description: z.string(),
+    originalDiscount: z.number().min(0),
+    remainingDiscount: z.number().min(0),
+    // Discount taken back (positive) or newly granted (negative) on the remaining order
+    clawback: z.number()
+});
+
+export const RefundResultSchema = z.object({
+    returnedItems: z.array(ReturnedLineSchema),
+    // Sum of paidAmount over the returned lines
+    returnedPaidAmount: z.number().min(0),
+    // Shipping paid that the remaining order no longer pays, for orders with shipping
+    shippingRefund: z.number().min(0).optional(),
+    // Discount the remaining order no longer qualifies for, including shipping it now pays
+    clawback: z.number(),
+    // returnedPaidAmount + shippingRefund - clawback, never negative
+    refundAmount: z.number().min(0),
+    remainingResult: DiscountResultSchema,
+    campaignAdjustments: z.array(CampaignAdjustmentSchema)
+});
+
+export type ReturnedLine = z.infer<typeof ReturnedLineSchema>;
+export type CampaignAdjustment = z.infer<typeof CampaignAdjustmentSchema>;
+export type RefundResult = z.infer<typeof RefundResultSchema>;
+
+// Flattened Zod issue, shared by the CLI output and the HTTP API error body
+export const ValidationIssueSchema = z.object({
+    path: z.string(),
+    message: z.string()
+});
+
+export type ValidationIssue = z.infer<typeof ValidationIssueSchema>;
+
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+    return error.issues.map(issue => ({
+        path: issue.path.length > 0 ? issue.path.join('.') : 'root',
+        message: issue.message
+    }));
+}
+
+// Batch output: one record per cart, either its result or why it failed
+export const BatchRecordSchema = z.union([
+    z.object({
+        source: z.string(),
+        result: DiscountResultSchema
+    }),
+    z.object({
+        source: z.string(),
+        error: z.string(),
+        message: z.string(),
+        issues: z.array(ValidationIssueSchema).optional()
+    })
+]);
+
+// Discount totals of the carts in one currency
+export const BatchTotalsSchema = z.object({
     totalDiscount: z.number().min(0),
-    appliedCampaigns: z.array(z.object({
-        category: CampaignCategory,
-        discountAmount: z.number().min(0)
-    }))
+    discountByCategory: z.record(CampaignCategory, z.number().min(0))
+});
+
+export const BatchSummarySchema = z.object({
+    carts: z.number().int().min(0),
+    succeeded: z.number().int().min(0),
+    failed: z.number().int().min(0),
+    // Keyed by currency, since carts in different currencies cannot be added up
+    totals: z.record(z.string(), BatchTotalsSchema)
 });
 
-export type DiscountResult = z.infer<typeof DiscountResultSchema>;
\ No newline at end of file
+export type BatchRecord = z.infer<typeof BatchRecordSchema>;
+export type BatchTotals = z.infer<typeof BatchTotalsSchema>;
+export type BatchSummary = z.infer<typeof BatchSummarySchema>;
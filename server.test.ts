@@ -0,0 +1,209 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { CouponSchema, openCouponRegistry, saveCoupons } from './coupons';
+import { adjustPoints, LoyaltyProgramSchema, openLoyaltyLedger, saveLoyaltyPrograms } from './loyalty';
+import { buildDiscountReport, openOrderHistory } from './orders';
+import type { Cart, DiscountResult, OptimizationResult } from './schema';
+import { handleRequest, useCouponRegistry, useLoyaltyLedger, useOrderHistory, type ErrorBody } from './server';
+
+const cart = {
+    items: [
+        { name: 'T-Shirt', price: 350, category: 'Clothing' },
+        { name: 'Hat', price: 250, category: 'Accessories' }
+    ],
+    discounts: [{ category: 'Coupon', type: 'Fixed', amount: 50 }]
+};
+
+const post = (path: string, body: unknown) => handleRequest(new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+}));
+
+describe('HTTP API', () => {
+    it('should report health', async () => {
+        const response = await handleRequest(new Request('http://localhost/health'));
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ status: 'ok' });
+    });
+
+    it('should calculate discounts', async () => {
+        const response = await post('/calculate', cart);
+        const result = await response.json() as DiscountResult;
+
+        expect(response.status).toBe(200);
+        expect(result.originalTotal).toBe(600);
+        expect(result.finalTotal).toBe(550);
+        expect(result.totalDiscount).toBe(50);
+    });
+
+    it('should accept a rounding policy as a query parameter', async () => {
+        const response = await post('/calculate?rounding=cash', {
+            items: [{ name: 'Gum', price: 10.1, category: 'Accessories' }],
+            discounts: []
+        });
+
+        expect((await response.json() as DiscountResult).finalTotal).toBe(10);
+    });
+
+    it('should accept a VAT configuration as query parameters', async () => {
+        const response = await post('/calculate?vat=7&vatExclusive=true', {
+            items: [{ name: 'Watch', price: 1000, category: 'Accessories' }],
+            discounts: []
+        });
+        const result = await response.json() as DiscountResult;
+
+        expect(result.tax?.vatAmount).toBe(70);
+        expect(result.finalTotal).toBe(1070);
+    });
+
+    it('should include the calculation trace with explain=true', async () => {
+        const response = await post('/calculate?explain=true', {
+            items: [{ name: 'Watch', price: 1000, category: 'Accessories' }],
+            discounts: [{ category: 'Coupon', type: 'Fixed', amount: 50 }]
+        });
+        const result = await response.json() as DiscountResult;
+
+        expect(result.trace).toEqual([expect.objectContaining({ totalBefore: 1000, discountAmount: 50, totalAfter: 950 })]);
+    });
+
+    it('should reject coupon codes when no coupon registry is configured', async () => {
+        const response = await post('/calculate', {
+            items: [{ name: 'Watch', price: 1000, category: 'Accessories' }],
+            discounts: [],
+            couponCodes: ['WELCOME100']
+        });
+        const body = await response.json() as ErrorBody;
+
+        expect(response.status).toBe(422);
+        expect(body.error).toBe('COUPON_ERROR');
+        expect(body.issues?.[0]?.path).toBe('couponCodes');
+    });
+
+    describe('with a loyalty ledger', () => {
+        afterEach(() => useLoyaltyLedger(undefined));
+
+        it('should preview points and record them only with redeem=true', async () => {
+            const db = openLoyaltyLedger(':memory:');
+            saveLoyaltyPrograms(db, [LoyaltyProgramSchema.parse({ id: 'default' })]);
+            adjustPoints(db, [{ customerId: 'c-1', program: 'default', points: 100 }]);
+            useLoyaltyLedger(db);
+            const pointsCart = {
+                items: [{ name: 'Watch', price: 1000, category: 'Accessories' }],
+                discounts: [],
+                customerId: 'c-1',
+                loyalty: { redeemPoints: 'all' }
+            };
+
+            const preview = await (await post('/calculate', pointsCart)).json() as DiscountResult;
+            const committed = await (await post('/calculate?redeem=true', pointsCart)).json() as DiscountResult;
+            const rejected = await post('/calculate?redeem=true', pointsCart);
+
+            expect(preview.loyalty).toMatchObject({ balanceBefore: 100, pointsRedeemed: 100, balanceAfter: 0, committed: false });
+            expect(committed.loyalty).toMatchObject({ balanceBefore: 100, pointsRedeemed: 100, balanceAfter: 0, committed: true });
+            expect(rejected.status).toBe(200);
+            expect((await rejected.json() as DiscountResult).loyalty?.pointsRedeemed).toBe(0);
+        });
+
+        it('should reject unknown loyalty programs', async () => {
+            useLoyaltyLedger(openLoyaltyLedger(':memory:'));
+
+            const response = await post('/calculate', { ...cart, customerId: 'c-1', loyalty: { program: 'gold' } });
+            const body = await response.json() as ErrorBody;
+
+            expect(response.status).toBe(422);
+            expect(body.error).toBe('LOYALTY_ERROR');
+            expect(body.issues?.[0]?.path).toBe('loyalty.program');
+        });
+    });
+
+    describe('with a coupon registry', () => {
+        afterEach(() => useCouponRegistry(undefined));
+
+        it('should keep the redeemed coupon on the items left after a refund', async () => {
+            const db = openCouponRegistry(':memory:');
+            saveCoupons(db, [CouponSchema.parse({ code: 'TEN', campaign: { category: 'Coupon', type: 'Percentage', percentage: 10 }, maxRedemptions: 1 })]);
+            useCouponRegistry(db);
+            const couponCart = {
+                items: [{ name: 'Watch', price: 100, category: 'Accessories', quantity: 2 }],
+                discounts: [],
+                couponCodes: ['TEN']
+            };
+
+            const originalResult = await (await post('/calculate?redeem=true', couponCart)).json() as DiscountResult;
+            const response = await post('/refund', { cart: couponCart, originalResult, returns: [{ name: 'Watch', quantity: 1 }] });
+
+            expect(originalResult.finalTotal).toBe(180);
+            expect(response.status).toBe(200);
+            expect(await response.json()).toMatchObject({ refundAmount: 90, clawback: 0 });
+        });
+    });
+
+    it('should return structured 422 responses for invalid carts', async () => {
+        const response = await post('/calculate', {
+            items: [{ name: '', price: -1, category: 'Clothing' }],
+            discounts: []
+        });
+        const body = await response.json() as ErrorBody;
+
+        expect(response.status).toBe(422);
+        expect(body.error).toBe('VALIDATION_ERROR');
+        expect(body.issues).toContainEqual({ path: 'items.0.name', message: 'Item name is required' });
+        expect(body.issues).toContainEqual({ path: 'items.0.price', message: 'Price must be non-negative' });
+    });
+
+    it('should pick the best campaign combination', async () => {
+        const response = await post('/optimize', {
+            items: cart.items,
+            candidates: [
+                { category: 'Coupon', type: 'Fixed', amount: 50 },
+                { category: 'Coupon', type: 'Percentage', percentage: 10 }
+            ]
+        });
+        const body = await response.json() as OptimizationResult;
+
+        expect(response.status).toBe(200);
+        expect(body.best.candidateIndexes).toEqual([1]);
+        expect(body.best.result.finalTotal).toBe(540);
+    });
+
+    it('should validate without calculating', async () => {
+        const response = await post('/validate', cart);
+        const body = await response.json() as { valid: boolean; cart: Cart };
+
+        expect(response.status).toBe(200);
+        expect(body.valid).toBe(true);
+        expect(body.cart.items[0]?.quantity).toBe(1);
+    });
+
+    describe('with an order history', () => {
+        afterEach(() => useOrderHistory(undefined));
+
+        it('should record placed orders but not previews', async () => {
+            const db = openOrderHistory(':memory:');
+            useOrderHistory(db);
+
+            await post('/calculate', cart);
+            await post('/calculate?redeem=true', cart);
+            await post('/calculate?redeem=true', { ...cart, discounts: [] });
+
+            const total = buildDiscountReport(db).rows.find(row => row.dimension === 'total');
+            expect(total).toMatchObject({ orders: 2, gross: 1200, totalDiscount: 50 });
+        });
+    });
+
+    it('should reject malformed JSON', async () => {
+        const response = await post('/validate', '{ not json');
+
+        expect(response.status).toBe(400);
+        expect((await response.json() as ErrorBody).error).toBe('INVALID_JSON');
+    });
+
+    it('should reject unknown routes and wrong methods', async () => {
+        expect((await handleRequest(new Request('http://localhost/nope'))).status).toBe(404);
+
+        const response = await handleRequest(new Request('http://localhost/calculate'));
+        expect(response.status).toBe(405);
+        expect(response.headers.get('Allow')).toBe('POST');
+    });
+});
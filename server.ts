@@ -0,0 +1,251 @@
+import { CalculationOptionsSchema, CartSchema, ComparisonRequestSchema, OptimizationRequestSchema, RefundRequestSchema, toValidationIssues, type CalculationOptions, type ValidationIssue } from "./schema"
+import { calculateDiscount } from "./discount"
+import { findBestCombination } from "./optimizer"
+import { compareScenarios } from "./compare"
+import { calculateRefund } from "./refund"
+import { loadCategoryCatalog } from "./categories"
+import { loadProductCatalog } from "./products"
+import { loadExchangeRates } from "./currency"
+import { loadStackingPolicy } from "./policy"
+import { applyCoupons, applyRedeemedCoupons, openCouponRegistry, type CouponIssue } from "./coupons"
+import { getBudgetUsage, openBudgetStore, type BudgetIssue } from "./budgets"
+import { applyLoyalty, applyRedeemedPoints, openLoyaltyLedger, type LoyaltyIssue } from "./loyalty"
+import { placeOrder } from "./checkout"
+import { openOrderHistory, recordOrder } from "./orders"
+import type { Database } from "bun:sqlite"
+import type { z } from "zod"
+
+const DEFAULT_PORT = 3000
+
+export interface ErrorBody {
+    error: string;
+    message: string;
+    issues?: ValidationIssue[];
+}
+
+type ParseOutcome<T> = { ok: true; value: T } | { ok: false; response: Response }
+
+// Coupon registry for carts with couponCodes, see useCouponRegistry
+let couponRegistry: Database | undefined
+
+export function useCouponRegistry(db: Database | undefined): void {
+    couponRegistry = db
+}
+
+// Loyalty ledger for carts with a loyalty section, see useLoyaltyLedger
+let loyaltyLedger: Database | undefined
+
+export function useLoyaltyLedger(db: Database | undefined): void {
+    loyaltyLedger = db
+}
+
+// Budget store for campaigns with a budget, see useBudgetStore
+let budgetStore: Database | undefined
+
+export function useBudgetStore(db: Database | undefined): void {
+    budgetStore = db
+}
+
+// Order history every order placed with /calculate?redeem=true is recorded in, see useOrderHistory
+let orderHistory: Database | undefined
+
+export function useOrderHistory(db: Database | undefined): void {
+    orderHistory = db
+}
+
+function errorResponse(status: number, body: ErrorBody, headers?: Record<string, string>): Response {
+    return Response.json(body, { status, headers })
+}
+
+function validationFailed(message: string, issues: ValidationIssue[]): Response {
+    return errorResponse(422, { error: "VALIDATION_ERROR", message, issues })
+}
+
+function couponFailed(issues: CouponIssue[]): Response {
+    return errorResponse(422, { error: "COUPON_ERROR", message: "Coupon codes could not be applied", issues: issues.map(({ path, message }) => ({ path, message })) })
+}
+
+function loyaltyFailed(issues: LoyaltyIssue[]): Response {
+    return errorResponse(422, { error: "LOYALTY_ERROR", message: "Loyalty points could not be applied", issues: issues.map(({ path, message }) => ({ path, message })) })
+}
+
+function budgetFailed(issues: BudgetIssue[]): Response {
+    return errorResponse(422, { error: "BUDGET_ERROR", message: "Campaign budgets could not be spent", issues: issues.map(({ path, message }) => ({ path, message })) })
+}
+
+function parseCart(request: Request) {
+    return parseBody(request, CartSchema, "Invalid cart data format")
+}
+
+async function parseBody<T extends z.ZodType>(request: Request, schema: T, message: string): Promise<ParseOutcome<z.output<T>>> {
+    let body: unknown
+    try {
+        body = await request.json()
+    } catch {
+        return { ok: false, response: errorResponse(400, { error: "INVALID_JSON", message: "Request body must be valid JSON" }) }
+    }
+
+    const parsed = schema.safeParse(body)
+    if (!parsed.success) {
+        return { ok: false, response: validationFailed(message, toValidationIssues(parsed.error)) }
+    }
+    return { ok: true, value: parsed.data }
+}
+
+// Calculation options are passed as query parameters, e.g. /calculate?rounding=cash&vat=7&explain=true
+function parseOptions(url: URL): ParseOutcome<CalculationOptions> {
+    const params = url.searchParams
+    const vat = params.get("vat")
+    const parsed = CalculationOptionsSchema.safeParse({
+        rounding: params.get("rounding") ?? undefined,
+        tax: vat === null ? undefined : {
+            rate: Number(vat),
+            pricesIncludeTax: params.get("vatExclusive") !== "true",
+            exemptCategories: params.get("vatExempt")?.split(",") ?? []
+        },
+        trace: params.get("explain") === "true"
+    })
+    if (!parsed.success) {
+        return { ok: false, response: validationFailed("Invalid calculation options", toValidationIssues(parsed.error)) }
+    }
+    return { ok: true, value: parsed.data }
+}
+
+async function handleCalculate(request: Request, url: URL): Promise<Response> {
+    const options = parseOptions(url)
+    if (!options.ok) return options.response
+
+    const parsed = await parseCart(request)
+    if (!parsed.ok) return parsed.response
+
+    const coupons = applyCoupons(couponRegistry, parsed.value)
+    if (!coupons.ok) return couponFailed(coupons.issues)
+    const loyalty = applyLoyalty(loyaltyLedger, coupons.cart)
+    if (!loyalty.ok) return loyaltyFailed(loyalty.issues)
+    const cart = loyalty.cart
+
+    const budgets = budgetStore && getBudgetUsage(budgetStore, cart)
+    const result = calculateDiscount(cart.items, cart.discounts, { ...options.value, currency: cart.currency, shipping: cart.shipping, budgets })
+
+    // ?redeem=true records the budget spend, coupon redemptions and points once the order is placed
+    const commit = url.searchParams.get("redeem") === "true"
+    const order = placeOrder({ budgets: budgetStore, coupons: couponRegistry, loyalty: loyaltyLedger }, cart, result, commit)
+    if (!order.ok) {
+        switch (order.failed) {
+            case "budgets": return budgetFailed(order.issues)
+            case "coupons": return couponFailed(order.issues)
+            case "loyalty": return loyaltyFailed(order.issues)
+        }
+    }
+
+    // Previews stay out of the history, so placing one later does not count it twice
+    if (orderHistory && commit) recordOrder(orderHistory, cart, order.result)
+    return Response.json(order.result)
+}
+
+async function handleOptimize(request: Request, url: URL): Promise<Response> {
+    const options = parseOptions(url)
+    if (!options.ok) return options.response
+
+    const body = await parseBody(request, OptimizationRequestSchema, "Invalid optimization request")
+    if (!body.ok) return body.response
+
+    return Response.json(findBestCombination(body.value.items, body.value.candidates, { ...options.value, currency: body.value.currency, shipping: body.value.shipping }))
+}
+
+async function handleCompare(request: Request, url: URL): Promise<Response> {
+    const options = parseOptions(url)
+    if (!options.ok) return options.response
+
+    const body = await parseBody(request, ComparisonRequestSchema, "Invalid comparison request")
+    if (!body.ok) return body.response
+
+    return Response.json(compareScenarios(body.value.carts, body.value.scenarios, options.value))
+}
+
+async function handleRefund(request: Request, url: URL): Promise<Response> {
+    const options = parseOptions(url)
+    if (!options.ok) return options.response
+
+    const body = await parseBody(request, RefundRequestSchema, "Invalid refund request")
+    if (!body.ok) return body.response
+
+    // The order's coupons and points count towards the remainder as they did towards the order
+    const { returns, originalResult } = body.value
+    const coupons = applyRedeemedCoupons(couponRegistry, body.value.cart)
+    if (!coupons.ok) return couponFailed(coupons.issues)
+    const loyalty = applyRedeemedPoints(loyaltyLedger, coupons.cart, originalResult)
+    if (!loyalty.ok) return loyaltyFailed(loyalty.issues)
+
+    return Response.json(calculateRefund(loyalty.cart, returns, originalResult, options.value))
+}
+
+// Dry run: validates the cart without calculating anything
+async function handleValidate(request: Request): Promise<Response> {
+    const cart = await parseCart(request)
+    if (!cart.ok) return cart.response
+
+    return Response.json({ valid: true, cart: cart.value })
+}
+
+const routes: Record<string, { method: string; handler: (request: Request, url: URL) => Response | Promise<Response> }> = {
+    "/calculate": { method: "POST", handler: handleCalculate },
+    "/optimize": { method: "POST", handler: handleOptimize },
+    "/compare": { method: "POST", handler: handleCompare },
+    "/refund": { method: "POST", handler: handleRefund },
+    "/validate": { method: "POST", handler: handleValidate },
+    "/health": { method: "GET", handler: () => Response.json({ status: "ok" }) }
+}
+
+export async function handleRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const route = routes[url.pathname]
+
+    if (!route) {
+        return errorResponse(404, { error: "NOT_FOUND", message: `No route for ${url.pathname}` })
+    }
+    if (request.method !== route.method) {
+        return errorResponse(405, { error: "METHOD_NOT_ALLOWED", message: `Use ${route.method} ${url.pathname}` }, { Allow: route.method })
+    }
+
+    try {
+        return await route.handler(request, url)
+    } catch (error) {
+        return errorResponse(500, { error: "INTERNAL_ERROR", message: (error as Error).message })
+    }
+}
+
+export function startServer(port: number = Number(process.env.PORT ?? DEFAULT_PORT)) {
+    const server = Bun.serve({ port, fetch: handleRequest })
+    console.log(`🚀 Discount API listening on ${server.url}`)
+    return server
+}
+
+if (import.meta.main) {
+    // Same catalog format as the CLI's --categories
+    if (process.env.CATEGORY_CATALOG) {
+        await loadCategoryCatalog(process.env.CATEGORY_CATALOG)
+    }
+    if (process.env.PRODUCT_CATALOG) {
+        await loadProductCatalog(process.env.PRODUCT_CATALOG)
+    }
+    if (process.env.EXCHANGE_RATES) {
+        await loadExchangeRates(process.env.EXCHANGE_RATES)
+    }
+    if (process.env.STACKING_POLICY) {
+        await loadStackingPolicy(process.env.STACKING_POLICY)
+    }
+    if (process.env.COUPON_DB) {
+        useCouponRegistry(openCouponRegistry(process.env.COUPON_DB))
+    }
+    if (process.env.LOYALTY_DB) {
+        useLoyaltyLedger(openLoyaltyLedger(process.env.LOYALTY_DB))
+    }
+    if (process.env.BUDGET_DB) {
+        useBudgetStore(openBudgetStore(process.env.BUDGET_DB))
+    }
+    if (process.env.ORDER_DB) {
+        useOrderHistory(openOrderHistory(process.env.ORDER_DB))
+    }
+    startServer()
+}
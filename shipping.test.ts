@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'bun:test';
+import { calculateDiscount } from './discount';
+import { CartSchema, type CalculationOptions, type CartItem } from './schema';
+
+const items: CartItem[] = [
+    { name: 'Jacket', price: 600, category: 'Clothing', quantity: 1, weight: 1.2 },
+    { name: 'Watch', price: 400, category: 'Accessories', quantity: 2, weight: 0.25 }
+];
+
+describe('Shipping', () => {
+    it('should charge flat, weight-based and per-unit fees', () => {
+        const fee = (shipping: CalculationOptions['shipping']) => calculateDiscount(items, [], { shipping }).shipping;
+
+        expect(fee({ method: 'flat', fee: 50 })).toEqual({ method: 'flat', baseFee: 50, freeOverThreshold: false, fee: 50, discount: 0, total: 50 });
+        // 30 + 1.7 kg × 20
+        expect(fee({ method: 'weight', baseFee: 30, perKg: 20 })?.fee).toBe(64);
+        // 3 units × 15
+        expect(fee({ method: 'quantity', perUnit: 15 })?.fee).toBe(45);
+    });
+
+    it('should add shipping to the totals without counting it towards the item campaigns', () => {
+        const result = calculateDiscount(items, [
+            { category: 'On Top', type: 'Fixed', customerPoints: 500 },
+            { category: 'Seasonal', type: 'Special', everyXThb: 300, discountYThb: 40 },
+            { category: 'Shipping', type: 'Discount', percentage: 50 }
+        ], { shipping: { method: 'flat', fee: 100 } });
+
+        // Points cap: 20% of 1,400 items, not 1,500; seasonal: floor(1,120 / 300) × 40
+        expect(result.appliedCampaigns.map(({ description, discountAmount }) => ({ description, discountAmount }))).toEqual([
+            { description: 'Points Discount (500 points)', discountAmount: 280 },
+            { description: 'Seasonal (40.00 THB per 300.00 THB)', discountAmount: 120 },
+            { description: 'Shipping Discount (50%)', discountAmount: 50 }
+        ]);
+        expect(result).toMatchObject({ originalTotal: 1500, totalDiscount: 450, finalTotal: 1050 });
+        expect(result.shipping).toMatchObject({ fee: 100, discount: 50, total: 50 });
+        // Shipping discounts are not split across the items
+        expect(result.itemAllocations.reduce((sum, item) => sum + item.totalDiscount, 0)).toBe(400);
+    });
+
+    it('should waive the fee once the discounted item total reaches the threshold', () => {
+        const shipping = { method: 'flat', fee: 80, freeOver: 1000 } as const;
+
+        const free = calculateDiscount(items, [], { shipping });
+        expect(free.shipping).toMatchObject({ baseFee: 80, freeOverThreshold: true, fee: 0 });
+        expect(free.finalTotal).toBe(1400);
+
+        const charged = calculateDiscount(items, [{ category: 'Coupon', type: 'Percentage', percentage: 30 }], { shipping });
+        expect(charged.shipping).toMatchObject({ freeOverThreshold: false, fee: 80 });
+        expect(charged.finalTotal).toBe(1060);
+    });
+
+    it('should require item weights for weight-based shipping', () => {
+        const parsed = CartSchema.safeParse({
+            items: [{ name: 'Jacket', price: 600, category: 'Clothing' }],
+            discounts: [],
+            shipping: { method: 'weight', perKg: 20 }
+        });
+
+        expect(parsed.success).toBe(false);
+        expect(parsed.error?.issues[0]).toMatchObject({ path: ['items', 0, 'weight'], message: 'Weight is required for weight-based shipping' });
+    });
+});
@@ -0,0 +1,38 @@
+import { roundMinorUnits, toMinorUnits } from "./money";
+import type { CartItem, RoundingPolicy, Shipping } from "./schema";
+
+// Amounts in integer minor units of the cart's currency
+export interface ShippingFee {
+    baseFee: number;
+    freeOverThreshold: boolean;
+    fee: number;
+}
+
+/**
+ * Works out what the shipping method charges for the items: a flat fee, or
+ * a base fee plus a rate per kilogram or per unit, rounded once with the
+ * rounding policy. The fee is waived once the item total after the item
+ * campaigns reaches freeOver.
+ */
+export function calculateShippingFee(shipping: Shipping, cartItems: CartItem[], itemsTotal: number, currency: string, rounding: RoundingPolicy): ShippingFee {
+    const units = (amount: number) => toMinorUnits(amount, currency);
+    let baseFee: number;
+    switch (shipping.method) {
+        case "flat":
+            baseFee = units(shipping.fee);
+            break;
+        case "weight": {
+            const weight = cartItems.reduce((sum, item) => sum + (item.weight ?? 0) * (item.quantity || 1), 0);
+            baseFee = units(shipping.baseFee) + roundMinorUnits(weight * units(shipping.perKg), rounding);
+            break;
+        }
+        case "quantity": {
+            const quantity = cartItems.reduce((sum, item) => sum + (item.quantity || 1), 0);
+            baseFee = units(shipping.baseFee) + quantity * units(shipping.perUnit);
+            break;
+        }
+    }
+
+    const freeOverThreshold = shipping.freeOver !== undefined && itemsTotal >= units(shipping.freeOver);
+    return { baseFee, freeOverThreshold, fee: freeOverThreshold ? 0 : baseFee };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'bun:test';
+import { calculateDiscount } from './discount';
+import type { CartItem, DiscountCampaign } from './schema';
+
+const items: CartItem[] = [
+    { name: 'T-Shirt', price: 535, category: 'Clothing', quantity: 1 },
+    { name: 'Phone', price: 1070, category: 'Electronics', quantity: 1 }
+];
+
+describe('VAT', () => {
+    it('should not report tax without a tax configuration', () => {
+        expect(calculateDiscount(items, []).tax).toBeUndefined();
+    });
+
+    it('should extract VAT from tax-inclusive prices', () => {
+        const result = calculateDiscount(items, [], { tax: { rate: 7 } });
+
+        expect(result.tax).toMatchObject({ netAmount: 1500, vatAmount: 105, grossAmount: 1605 });
+        expect(result.finalTotal).toBe(1605);
+    });
+
+    it('should add VAT on top of tax-exclusive prices', () => {
+        const result = calculateDiscount(items, [], { tax: { rate: 7, pricesIncludeTax: false } });
+
+        expect(result.tax).toMatchObject({ netAmount: 1605, vatAmount: 112.35, grossAmount: 1717.35 });
+        expect(result.finalTotal).toBe(1717.35);
+    });
+
+    it('should compute VAT on the discounted prices', () => {
+        const campaigns: DiscountCampaign[] = [{ category: 'Coupon', type: 'Percentage', percentage: 20 }];
+
+        const result = calculateDiscount(items, campaigns, { tax: { rate: 7 } });
+
+        // 1605 - 321 = 1284 incl. VAT -> 1200 + 84
+        expect(result.tax).toMatchObject({ netAmount: 1200, vatAmount: 84, grossAmount: 1284 });
+    });
+
+    it('should leave exempt categories out of the VAT base', () => {
+        const result = calculateDiscount(items, [], { tax: { rate: 7, exemptCategories: ['Electronics'] } });
+
+        expect(result.tax).toMatchObject({
+            taxableAmount: 500,
+            exemptAmount: 1070,
+            netAmount: 1570,
+            vatAmount: 35,
+            grossAmount: 1605
+        });
+    });
+
+    it('should round VAT with the rounding policy', () => {
+        const cheap: CartItem[] = [{ name: 'Gum', price: 10, category: 'Accessories', quantity: 1 }];
+
+        // 10 × 7 / 107 = 0.654...
+        expect(calculateDiscount(cheap, [], { tax: { rate: 7 } }).tax?.vatAmount).toBe(0.65);
+        expect(calculateDiscount(cheap, [], { tax: { rate: 7 }, rounding: 'floor' }).tax?.vatAmount).toBe(0.65);
+        expect(calculateDiscount(cheap, [], { tax: { rate: 7, pricesIncludeTax: false }, rounding: 'cash' }).finalTotal).toBe(10.75);
+    });
+});
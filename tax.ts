@@ -0,0 +1,50 @@
+import { isInCategory } from "./categories";
+import { roundMinorUnits } from "./money";
+import type { CartItem, RoundingPolicy, TaxConfig } from "./schema";
+
+// Amounts in integer satang
+export interface TaxBreakdown {
+    taxableAmount: number;
+    exemptAmount: number;
+    vatAmount: number;
+    grossAmount: number;
+}
+
+/**
+ * Computes VAT on the discounted line prices, so discounts reduce the VAT
+ * base. VAT is rounded once on the cart total with the rounding policy.
+ * With tax-inclusive prices VAT is extracted from the taxable lines; with
+ * tax-exclusive prices it is added on top of them. Exempting a category
+ * also exempts its subcategories.
+ */
+export function calculateTax(cartItems: CartItem[], itemNets: number[], config: TaxConfig, rounding: RoundingPolicy): TaxBreakdown {
+    let taxableLines = 0;
+    let exemptAmount = 0;
+
+    cartItems.forEach((item, index) => {
+        const net = itemNets[index] ?? 0;
+        if (config.exemptCategories.some(category => isInCategory(item.category, category))) {
+            exemptAmount += net;
+        } else {
+            taxableLines += net;
+        }
+    });
+
+    if (config.pricesIncludeTax) {
+        const vatAmount = roundMinorUnits((taxableLines * config.rate) / (100 + config.rate), rounding);
+        return {
+            taxableAmount: taxableLines - vatAmount,
+            exemptAmount,
+            vatAmount,
+            grossAmount: taxableLines + exemptAmount
+        };
+    }
+
+    const vatAmount = roundMinorUnits((taxableLines * config.rate) / 100, rounding);
+    return {
+        taxableAmount: taxableLines,
+        exemptAmount,
+        vatAmount,
+        grossAmount: taxableLines + exemptAmount + vatAmount
+    };
+}